@@ -1,29 +0,0 @@
-import type { Preview } from "@storybook/react-vite";
-import '../src/index.css';
-
-const preview: Preview = {
-  parameters: {
-    actions: { argTypesRegex: "^on[A-Z].*" },
-    controls: {
-      matchers: {
-        color: /(background|color)$/i,
-        date: /Date$/,
-      },
-    },
-    backgrounds: {
-      default: 'light',
-      values: [
-        {
-          name: 'light',
-          value: '#ffffff',
-        },
-        {
-          name: 'dark',
-          value: '#1f2937',
-        },
-      ],
-    },
-  },
-};
-
-export default preview; 
\ No newline at end of file
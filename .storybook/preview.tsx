@@ -0,0 +1,75 @@
+import type { Preview } from "@storybook/react-vite";
+import '../src/index.css';
+import { directionOf, LocaleProvider } from '../src/components/Locale';
+import { ColorSchemeProvider } from '../src/components/ColorScheme';
+
+const preview: Preview = {
+  globalTypes: {
+    locale: {
+      description: "Locale of the built-in strings",
+      toolbar: {
+        title: "Locale",
+        icon: "globe",
+        items: [
+          { value: "en", title: "English" },
+          { value: "ar", title: "العربية" },
+          { value: "he", title: "עברית" },
+        ],
+        dynamicTitle: true,
+      },
+    },
+    direction: {
+      description: "Writing direction",
+      toolbar: {
+        title: "Direction",
+        icon: "transfer",
+        items: [
+          { value: "auto", title: "Direction from locale" },
+          { value: "ltr", title: "Left to right" },
+          { value: "rtl", title: "Right to left" },
+        ],
+        dynamicTitle: true,
+      },
+    },
+    colorScheme: {
+      description: "Color scheme, applied through ColorSchemeProvider like in the app",
+      toolbar: {
+        title: "Color scheme",
+        icon: "mirror",
+        items: [
+          { value: "light", title: "Light", icon: "sun" },
+          { value: "dark", title: "Dark", icon: "moon" },
+          { value: "system", title: "System", icon: "browser" },
+        ],
+        dynamicTitle: true,
+      },
+    },
+  },
+  initialGlobals: {
+    locale: "en",
+    direction: "auto",
+    colorScheme: "light",
+  },
+  decorators: [
+    (Story, { globals }) => (
+      <ColorSchemeProvider mode={globals.colorScheme}>
+        <LocaleProvider locale={globals.locale}>
+          <div lang={globals.locale} dir={globals.direction === "auto" ? directionOf(globals.locale) : globals.direction}>
+            <Story />
+          </div>
+        </LocaleProvider>
+      </ColorSchemeProvider>
+    ),
+  ],
+  parameters: {
+    actions: { argTypesRegex: "^on[A-Z].*" },
+    controls: {
+      matchers: {
+        color: /(background|color)$/i,
+        date: /Date$/,
+      },
+    },
+  },
+};
+
+export default preview; 
\ No newline at end of file
@@ -1,45 +1,52 @@
-import React, { useState } from 'react';
+import { useState } from 'react';
 import { InputField } from './components/InputField';
+import { Form } from './components/Form';
+import { SearchField } from './components/SearchField';
+import { ColorSchemeMode, useColorScheme } from './components/ColorScheme';
 
-function App() {
-  const [darkMode, setDarkMode] = useState(false);
+const colorSchemeOptions: { mode: ColorSchemeMode; label: string }[] = [
+  { mode: 'light', label: '☀️ Light' },
+  { mode: 'dark', label: '🌙 Dark' },
+  { mode: 'system', label: '💻 System' },
+];
 
-  const toggleDarkMode = () => {
-    setDarkMode(!darkMode);
-    if (!darkMode) {
-      document.documentElement.classList.add('dark');
-    } else {
-      document.documentElement.classList.remove('dark');
-    }
-  };
+function App() {
+  const { mode, setMode } = useColorScheme();
+  const [submitted, setSubmitted] = useState<Record<string, string> | null>(null);
 
   return (
-    <div className={`min-h-screen transition-colors duration-200 ${darkMode ? 'dark bg-gray-900' : 'bg-gray-50'}`}>
+    <div className="min-h-screen transition-colors duration-200 bg-gray-50 dark:bg-gray-900">
       <div className="container mx-auto px-4 py-8">
         {/* Header */}
         <div className="text-center mb-12">
-          <h1 className={`text-4xl font-bold mb-4 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+          <h1 className="text-4xl font-bold mb-4 text-gray-900 dark:text-white">
             InputField Component Demo
           </h1>
-          <p className={`text-lg mb-6 ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+          <p className="text-lg mb-6 text-gray-600 dark:text-gray-300">
             A comprehensive, accessible, and customizable input field component
           </p>
-          <button
-            onClick={toggleDarkMode}
-            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-              darkMode
-                ? 'bg-gray-700 text-white hover:bg-gray-600'
-                : 'bg-gray-200 text-gray-800 hover:bg-gray-300'
-            }`}
-          >
-            {darkMode ? '☀️ Light Mode' : '🌙 Dark Mode'}
-          </button>
+          <div role="group" aria-label="Color scheme" className="inline-flex gap-1 p-1 rounded-lg border-0 bg-gray-200 dark:bg-gray-700">
+            {colorSchemeOptions.map((option) => (
+              <button
+                key={option.mode}
+                onClick={() => setMode(option.mode)}
+                aria-pressed={mode === option.mode}
+                className={`px-4 py-2 rounded-md border-0 font-medium transition-colors ${
+                  mode === option.mode
+                    ? 'bg-white text-gray-900 shadow dark:bg-gray-900 dark:text-white'
+                    : 'text-gray-700 hover:bg-gray-300 dark:text-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
         </div>
 
         {/* Basic Examples */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-12">
-          <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
-            <h2 className={`text-2xl font-semibold mb-6 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+          <div className="p-6 rounded-lg bg-white dark:bg-gray-800 shadow-lg">
+            <h2 className="text-2xl font-semibold mb-6 text-gray-900 dark:text-white">
               Basic Examples
             </h2>
             <div className="space-y-6">
@@ -56,16 +63,17 @@ function App() {
                 showPasswordToggle
                 helperText="Must be at least 8 characters"
               />
-              <InputField
+              <SearchField
                 label="Search"
                 placeholder="Search for anything..."
-                clearable
+                shortcut="/"
+                recentSearchesKey="demo-recent-searches"
               />
             </div>
           </div>
 
-          <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
-            <h2 className={`text-2xl font-semibold mb-6 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+          <div className="p-6 rounded-lg bg-white dark:bg-gray-800 shadow-lg">
+            <h2 className="text-2xl font-semibold mb-6 text-gray-900 dark:text-white">
               States & Validation
             </h2>
             <div className="space-y-6">
@@ -93,8 +101,8 @@ function App() {
         </div>
 
         {/* Size Variations */}
-        <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg mb-8`}>
-          <h2 className={`text-2xl font-semibold mb-6 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+        <div className="p-6 rounded-lg bg-white dark:bg-gray-800 shadow-lg mb-8">
+          <h2 className="text-2xl font-semibold mb-6 text-gray-900 dark:text-white">
             Size Variations
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -120,8 +128,8 @@ function App() {
         </div>
 
         {/* Variant Styles */}
-        <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg mb-8`}>
-          <h2 className={`text-2xl font-semibold mb-6 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+        <div className="p-6 rounded-lg bg-white dark:bg-gray-800 shadow-lg mb-8">
+          <h2 className="text-2xl font-semibold mb-6 text-gray-900 dark:text-white">
             Variant Styles
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -147,59 +155,95 @@ function App() {
         </div>
 
         {/* Complex Form Example */}
-        <div className={`p-6 rounded-lg ${darkMode ? 'bg-gray-800' : 'bg-white'} shadow-lg`}>
-          <h2 className={`text-2xl font-semibold mb-6 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+        <div className="p-6 rounded-lg bg-white dark:bg-gray-800 shadow-lg">
+          <h2 className="text-2xl font-semibold mb-6 text-gray-900 dark:text-white">
             Complex Form Example
           </h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <InputField
-              label="Full Name"
-              placeholder="Enter your full name"
-              required
-              helperText="As it appears on your ID"
-            />
-            <InputField
-              label="Phone Number"
-              placeholder="+1 (555) 123-4567"
-              type="tel"
-              helperText="Include country code"
-            />
-            <InputField
-              label="Email Address"
-              placeholder="your.email@example.com"
-              type="email"
-              required
-              clearable
-              helperText="We'll send a confirmation email"
-            />
-            <InputField
-              label="Website"
-              placeholder="https://yourwebsite.com"
-              type="url"
-              helperText="Include http:// or https://"
-            />
-            <InputField
-              label="Password"
-              placeholder="Create a strong password"
-              type="password"
-              required
-              showPasswordToggle
-              helperText="At least 8 characters with numbers and symbols"
-            />
-            <InputField
-              label="Confirm Password"
-              placeholder="Confirm your password"
-              type="password"
-              required
-              showPasswordToggle
-              helperText="Must match your password"
-            />
-          </div>
+          <Form
+            onSubmit={(values) => setSubmitted(values)}
+            onInvalid={() => setSubmitted(null)}
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <InputField
+                name="fullName"
+                label="Full Name"
+                placeholder="Enter your full name"
+                required
+                helperText="As it appears on your ID"
+              />
+              <InputField
+                name="phone"
+                label="Phone Number"
+                placeholder="+1 (555) 123-4567"
+                type="tel"
+                mask="+1 (999) 999-9999"
+                helperText="US numbers only"
+              />
+              <InputField
+                name="email"
+                label="Email Address"
+                placeholder="your.email@example.com"
+                type="email"
+                required
+                clearable
+                helperText="We'll send a confirmation email"
+              />
+              <InputField
+                name="website"
+                label="Website"
+                placeholder="yourwebsite.com"
+                prefix="https://"
+                rules={{
+                  pattern: { value: /[\w-]+(\.[\w-]+)+(\/\S*)?/, message: 'Please enter a valid domain' },
+                }}
+                helperText="Your site's address"
+              />
+              <InputField
+                name="password"
+                label="Password"
+                placeholder="Create a strong password"
+                type="password"
+                required
+                showPasswordToggle
+                passwordPolicy={{
+                  minLength: 8,
+                  requireDigit: true,
+                  requireSymbol: true,
+                  bannedWords: ['password', 'qwerty', '123456'],
+                }}
+              />
+              <InputField
+                name="confirmPassword"
+                label="Confirm Password"
+                placeholder="Confirm your password"
+                type="password"
+                required
+                showPasswordToggle
+                rules={{
+                  validate: (value, values) => value === values.password || 'Passwords do not match',
+                }}
+                helperText="Must match your password"
+              />
+            </div>
+            <div className="flex items-center gap-4 mt-6">
+              <button
+                type="submit"
+                className="px-4 py-2 rounded-lg font-medium bg-primary-500 text-white hover:bg-primary-600 transition-colors"
+              >
+                Create Account
+              </button>
+              {submitted && (
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                  Submitted as {submitted.fullName} ({submitted.email})
+                </p>
+              )}
+            </div>
+          </Form>
         </div>
 
         {/* Footer */}
         <div className="text-center mt-12 pt-8 border-t border-gray-200 dark:border-gray-700">
-          <p className={`${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          <p className="text-gray-600 dark:text-gray-400">
             Built with React, TypeScript, and TailwindCSS
           </p>
         </div>
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { ColorScheme, ColorSchemeMode } from './colorScheme';
+
+export interface ColorSchemeContextValue {
+  /** Mode the user picked */
+  mode: ColorSchemeMode;
+  /** Scheme shown on the page, with `system` resolved */
+  scheme: ColorScheme;
+  setMode: (mode: ColorSchemeMode) => void;
+}
+
+export const ColorSchemeContext = createContext<ColorSchemeContextValue | null>(null);
+
+/** Returns the mode, the resolved scheme and a setter of the enclosing `ColorSchemeProvider` */
+export function useColorScheme(): ColorSchemeContextValue {
+  const context = useContext(ColorSchemeContext);
+  if (!context) {
+    throw new Error('useColorScheme must be used inside <ColorSchemeProvider>');
+  }
+  return context;
+}
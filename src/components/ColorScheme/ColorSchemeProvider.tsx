@@ -0,0 +1,98 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useIsomorphicLayoutEffect } from '../InputField/useIsomorphicLayoutEffect';
+import { useLatestRef } from '../InputField/useLatestRef';
+import { ColorSchemeContext } from './ColorSchemeContext';
+import {
+  applyColorScheme,
+  ColorScheme,
+  colorSchemeLocalStorage,
+  ColorSchemeMode,
+  ColorSchemeStorage,
+  DEFAULT_STORAGE_KEY,
+  prefersDark,
+  resolveColorScheme,
+  watchSystemScheme,
+} from './colorScheme';
+
+export interface ColorSchemeProviderProps {
+  /** Selected mode; makes the provider controlled and turns off its storage */
+  mode?: ColorSchemeMode;
+  /** Mode of an uncontrolled provider until a stored choice is read */
+  defaultMode?: ColorSchemeMode;
+  /** Callback with the mode passed to `setMode` */
+  onModeChange?: (mode: ColorSchemeMode) => void;
+  /** Storage key of the chosen mode; must match the pre-paint script's */
+  storageKey?: string;
+  /** Where the chosen mode is kept; defaults to `localStorage` */
+  storage?: ColorSchemeStorage;
+  children: React.ReactNode;
+}
+
+/**
+ * Applies a light, dark or system color scheme to the document and remembers
+ * the choice. Nothing is read until after mount, so server and client render
+ * the same markup; the pre-paint script from `colorSchemeScript` keeps the
+ * page from flashing meanwhile.
+ */
+export function ColorSchemeProvider({
+  mode: modeProp,
+  defaultMode = 'system',
+  onModeChange,
+  storageKey = DEFAULT_STORAGE_KEY,
+  storage = colorSchemeLocalStorage,
+  children,
+}: ColorSchemeProviderProps) {
+  const isControlled = modeProp !== undefined;
+  const [localMode, setLocalMode] = useState(defaultMode);
+  const mode = isControlled ? modeProp : localMode;
+
+  // Until the stored mode is known the document keeps the class the pre-paint script set
+  const [loaded, setLoaded] = useState(isControlled);
+  const [systemScheme, setSystemScheme] = useState<ColorScheme>('light');
+
+  const storageRef = useLatestRef(storage);
+
+  useEffect(() => {
+    if (isControlled) {
+      setLoaded(true);
+      return;
+    }
+    let cancelled = false;
+    Promise.resolve(storageRef.current.get(storageKey)).then(
+      (stored) => {
+        if (cancelled) return;
+        if (stored) setLocalMode(stored);
+        setLoaded(true);
+      },
+      () => !cancelled && setLoaded(true)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [isControlled, storageKey]);
+
+  useEffect(() => {
+    setSystemScheme(prefersDark() ? 'dark' : 'light');
+    return watchSystemScheme(setSystemScheme);
+  }, []);
+
+  const scheme = resolveColorScheme(mode, systemScheme);
+
+  // The media query is read again here, so the first apply never uses the server's guess
+  useIsomorphicLayoutEffect(() => {
+    if (!loaded) return;
+    applyColorScheme(resolveColorScheme(mode, prefersDark() ? 'dark' : 'light'));
+  }, [loaded, mode, systemScheme]);
+
+  const setMode = useCallback((next: ColorSchemeMode) => {
+    if (!isControlled) {
+      setLocalMode(next);
+      Promise.resolve(storageRef.current.set(storageKey, next)).catch(() => {});
+    }
+    onModeChange?.(next);
+  }, [isControlled, storageKey, onModeChange]);
+
+  const value = useMemo(() => ({ mode, scheme, setMode }), [mode, scheme, setMode]);
+
+  return <ColorSchemeContext.Provider value={value}>{children}</ColorSchemeContext.Provider>;
+}
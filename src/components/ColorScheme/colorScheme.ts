@@ -0,0 +1,75 @@
+import { localStorageAdapter } from '../InputField/webStorage';
+
+/** Mode the user picks; `system` follows `prefers-color-scheme` */
+export type ColorSchemeMode = 'light' | 'dark' | 'system';
+
+/** Scheme actually shown once `system` is resolved */
+export type ColorScheme = 'light' | 'dark';
+
+/** Where the chosen mode is kept; adapters for async stores may return promises */
+export interface ColorSchemeStorage {
+  get: (key: string) => ColorSchemeMode | null | Promise<ColorSchemeMode | null>;
+  set: (key: string, mode: ColorSchemeMode) => void | Promise<void>;
+}
+
+export const DEFAULT_STORAGE_KEY = 'color-scheme';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+export const isColorSchemeMode = (value: unknown): value is ColorSchemeMode =>
+  value === 'light' || value === 'dark' || value === 'system';
+
+/** Keeps the mode in `localStorage`, the store the pre-paint script reads */
+export const colorSchemeLocalStorage: ColorSchemeStorage = {
+  get: (key) => {
+    const stored = localStorageAdapter.get(key);
+    return isColorSchemeMode(stored) ? stored : null;
+  },
+  set: (key, mode) => localStorageAdapter.set(key, mode),
+};
+
+/** Whether the operating system asks for dark mode; `false` on the server */
+export const prefersDark = () => typeof window !== 'undefined' && !!window.matchMedia?.(DARK_QUERY).matches;
+
+/** Calls `listener` whenever the system preference changes; returns the cleanup */
+export function watchSystemScheme(listener: (scheme: ColorScheme) => void): () => void {
+  const media = window.matchMedia?.(DARK_QUERY);
+  if (!media) return () => {};
+  const handleChange = (e: MediaQueryListEvent) => listener(e.matches ? 'dark' : 'light');
+  media.addEventListener('change', handleChange);
+  return () => media.removeEventListener('change', handleChange);
+}
+
+export const resolveColorScheme = (mode: ColorSchemeMode, systemScheme: ColorScheme): ColorScheme =>
+  mode === 'system' ? systemScheme : mode;
+
+/** Sets the `dark` class Tailwind's dark variants key off, and `color-scheme` for scrollbars and form controls */
+export function applyColorScheme(scheme: ColorScheme, root: HTMLElement = document.documentElement) {
+  root.classList.toggle('dark', scheme === 'dark');
+  root.style.colorScheme = scheme;
+}
+
+export interface ColorSchemeScriptOptions {
+  /** Must match the provider's `storageKey` */
+  storageKey?: string;
+  /** Must match the provider's `defaultMode` */
+  defaultMode?: ColorSchemeMode;
+}
+
+/**
+ * Inline script for the document head that applies the stored or system
+ * scheme before the first paint, so a dark page never flashes light. It reads
+ * `localStorage` directly and can't see other storage adapters.
+ */
+export function colorSchemeScript({
+  storageKey = DEFAULT_STORAGE_KEY,
+  defaultMode = 'system',
+}: ColorSchemeScriptOptions = {}): string {
+  return (
+    '(function(){var m;' +
+    `try{m=localStorage.getItem(${JSON.stringify(storageKey)})}catch(e){}` +
+    `if(m!=='light'&&m!=='dark'&&m!=='system')m=${JSON.stringify(defaultMode)};` +
+    `var d=m==='dark'||(m==='system'&&!!window.matchMedia&&matchMedia(${JSON.stringify(DARK_QUERY)}).matches);` +
+    "var r=document.documentElement;r.classList.toggle('dark',d);r.style.colorScheme=d?'dark':'light'})()"
+  );
+}
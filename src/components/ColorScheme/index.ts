@@ -0,0 +1,6 @@
+export { ColorSchemeProvider } from './ColorSchemeProvider';
+export type { ColorSchemeProviderProps } from './ColorSchemeProvider';
+export { useColorScheme } from './ColorSchemeContext';
+export type { ColorSchemeContextValue } from './ColorSchemeContext';
+export { applyColorScheme, colorSchemeLocalStorage, colorSchemeScript } from './colorScheme';
+export type { ColorScheme, ColorSchemeMode, ColorSchemeScriptOptions, ColorSchemeStorage } from './colorScheme';
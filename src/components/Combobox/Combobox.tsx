@@ -0,0 +1,413 @@
+import React, {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useId,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { Check, ChevronDown, Loader2 } from 'lucide-react';
+import { InputField, InputFieldProps, ValueChangeReason } from '../InputField';
+import { usePopoverTop } from '../InputField/usePopoverTop';
+import { FieldSize, iconButtonClasses } from '../InputField/styles';
+import { useFieldStyles } from '../Theme/ThemeContext';
+import { useMessages } from '../Locale/LocaleContext';
+import { highlightMatch } from './highlightMatch';
+
+export interface ComboboxOption {
+  /** Value reported when the option is selected */
+  value: string;
+  /** Text shown in the list and in the input */
+  label: string;
+  /** Whether the option can't be selected */
+  disabled?: boolean;
+}
+
+export interface ComboboxProps
+  extends Omit<
+    InputFieldProps,
+    'value' | 'defaultValue' | 'onValueChange' | 'type' | 'mask' | 'onMaskedChange' | 'endAdornment'
+  > {
+  /** Static options; plain strings are used as both value and label */
+  options?: (ComboboxOption | string)[];
+  /** Fetches options for the typed text; the signal aborts when the text changes again */
+  loadOptions?: (query: string, signal: AbortSignal) => Promise<(ComboboxOption | string)[]>;
+  /** Milliseconds to wait after typing stops before `loadOptions` runs */
+  loadDelay?: number;
+  /** Selected value; makes the combobox controlled */
+  value?: string | null;
+  /** Initially selected value of an uncontrolled combobox */
+  defaultValue?: string | null;
+  /** Callback when the value changes; `option` is null for free text or no selection */
+  onValueChange?: (value: string | null, option: ComboboxOption | null) => void;
+  /** Whether text that matches no option is accepted as the value */
+  allowCustomValue?: boolean;
+  /** Filters static options for the typed text; defaults to a case-insensitive substring match */
+  filterOptions?: (options: ComboboxOption[], query: string) => ComboboxOption[];
+  /** Option count above which only the visible rows are rendered */
+  virtualThreshold?: number;
+  /** Text shown when no option matches; defaults to the locale's "No results" */
+  emptyText?: string;
+}
+
+const normalize = (option: ComboboxOption | string): ComboboxOption =>
+  typeof option === 'string' ? { value: option, label: option } : option;
+
+const defaultFilter = (options: ComboboxOption[], query: string) => {
+  const needle = query.trim().toLowerCase();
+  return needle ? options.filter((option) => option.label.toLowerCase().includes(needle)) : options;
+};
+
+// Row heights per size (px), `md` for registered sizes; fixed heights let long lists render only the visible window
+const OPTION_HEIGHTS: Partial<Record<FieldSize, number>> = { sm: 32, md: 40, lg: 48 };
+const LISTBOX_MAX_HEIGHT = 240;
+const OVERSCAN = 5;
+
+export const Combobox = forwardRef<HTMLInputElement, ComboboxProps>(
+  (
+    {
+      options,
+      loadOptions,
+      loadDelay = 300,
+      value: valueProp,
+      defaultValue = null,
+      onValueChange,
+      allowCustomValue = false,
+      filterOptions = defaultFilter,
+      virtualThreshold = 100,
+      emptyText,
+      size = 'md',
+      id,
+      idPrefix = 'combobox',
+      label,
+      disabled = false,
+      onKeyDown,
+      onBlur,
+      onClick,
+      messages: messageOverrides,
+      ...props
+    },
+    ref
+  ) => {
+    const fieldStyles = useFieldStyles(size);
+    const messages = useMessages(messageOverrides);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const wrapperRef = useRef<HTMLDivElement>(null);
+    const listboxRef = useRef<HTMLDivElement>(null);
+    useImperativeHandle(ref, () => inputRef.current as HTMLInputElement);
+
+    const reactId = useId();
+    const inputId = id || `${idPrefix}-${reactId.replace(/:/g, '')}`;
+    const listboxId = `${inputId}-listbox`;
+    const optionId = (index: number) => `${listboxId}-option-${index}`;
+
+    const staticOptions = useMemo(() => (options ?? []).map(normalize), [options]);
+    const [loadedOptions, setLoadedOptions] = useState<ComboboxOption[]>([]);
+    const [loadingOptions, setLoadingOptions] = useState(false);
+
+    const isControlled = valueProp !== undefined;
+    const [localValue, setLocalValue] = useState(defaultValue);
+    const selectedValue = isControlled ? valueProp : localValue;
+
+    // Remember the selected option so its label survives async option lists changing
+    const selectedRef = useRef<ComboboxOption | null>(null);
+    const selectedOption =
+      [...staticOptions, ...loadedOptions].find((option) => option.value === selectedValue) ??
+      (selectedRef.current?.value === selectedValue ? selectedRef.current : null);
+    selectedRef.current = selectedOption;
+
+    const labelOf = (option: ComboboxOption | null, fallback: string | null) =>
+      option?.label ?? (allowCustomValue ? fallback ?? '' : '');
+
+    const [inputText, setInputText] = useState(() => labelOf(selectedOption, selectedValue));
+    const [query, setQuery] = useState('');
+    const [open, setOpen] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(-1);
+    const [scrollTop, setScrollTop] = useState(0);
+
+    // Show the label of a selection made outside the combobox
+    useEffect(() => {
+      setInputText(labelOf(selectedRef.current, selectedValue));
+    }, [selectedValue, selectedOption?.label, allowCustomValue]);
+
+    // Async options, debounced and aborted when the query changes
+    const loadOptionsRef = useRef(loadOptions);
+    loadOptionsRef.current = loadOptions;
+    const hasLoader = !!loadOptions;
+
+    useEffect(() => {
+      if (!hasLoader || !open) return;
+
+      const controller = new AbortController();
+      setLoadingOptions(true);
+
+      const timer = setTimeout(() => {
+        loadOptionsRef.current?.(query, controller.signal).then(
+          (result) => {
+            if (controller.signal.aborted) return;
+            setLoadedOptions(result.map(normalize));
+            setLoadingOptions(false);
+          },
+          () => {
+            if (controller.signal.aborted) return;
+            setLoadedOptions([]);
+            setLoadingOptions(false);
+          }
+        );
+      }, loadDelay);
+
+      return () => {
+        clearTimeout(timer);
+        controller.abort();
+        setLoadingOptions(false);
+      };
+    }, [hasLoader, open, query, loadDelay]);
+
+    const filtered = useMemo(
+      () => (hasLoader ? loadedOptions : filterOptions(staticOptions, query)),
+      [hasLoader, loadedOptions, filterOptions, staticOptions, query]
+    );
+
+    const itemHeight = OPTION_HEIGHTS[size] ?? 40;
+    const virtual = filtered.length > virtualThreshold;
+    const windowStart = virtual ? Math.max(0, Math.floor(scrollTop / itemHeight) - OVERSCAN) : 0;
+    const windowEnd = virtual
+      ? Math.min(filtered.length, windowStart + Math.ceil(LISTBOX_MAX_HEIGHT / itemHeight) + OVERSCAN * 2)
+      : filtered.length;
+
+    const popoverTop = usePopoverTop(open, inputRef, wrapperRef);
+
+    // Keep the active option scrolled into view
+    useEffect(() => {
+      const listbox = listboxRef.current;
+      if (!open || !listbox || activeIndex < 0) return;
+      const top = activeIndex * itemHeight;
+      if (top < listbox.scrollTop) {
+        listbox.scrollTop = top;
+      } else if (top + itemHeight > listbox.scrollTop + listbox.clientHeight) {
+        listbox.scrollTop = top + itemHeight - listbox.clientHeight;
+      }
+    }, [open, activeIndex, itemHeight]);
+
+    const select = useCallback((option: ComboboxOption | null) => {
+      selectedRef.current = option;
+      if (!isControlled) setLocalValue(option?.value ?? null);
+      setInputText(option?.label ?? '');
+      setQuery('');
+      setOpen(false);
+      setActiveIndex(-1);
+      onValueChange?.(option?.value ?? null, option);
+    }, [isControlled, onValueChange]);
+
+    const handleTextChange = useCallback((text: string, reason: ValueChangeReason) => {
+      if (reason === 'clear' || reason === 'reset') {
+        select(null);
+        return;
+      }
+
+      setInputText(text);
+      setQuery(text);
+      setOpen(true);
+      setActiveIndex(-1);
+
+      if (allowCustomValue) {
+        const match = [...staticOptions, ...loadedOptions].find((option) => option.label === text) ?? null;
+        selectedRef.current = match;
+        if (!isControlled) setLocalValue(match?.value ?? text);
+        onValueChange?.(match?.value ?? text, match);
+      }
+    }, [select, allowCustomValue, staticOptions, loadedOptions, isControlled, onValueChange]);
+
+    const findEnabled = (start: number, step: 1 | -1) => {
+      for (let i = start; i >= 0 && i < filtered.length; i += step) {
+        if (!filtered[i].disabled) return i;
+      }
+      return -1;
+    };
+
+    const moveTo = (index: number) => {
+      if (index !== -1) setActiveIndex(index);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      onKeyDown?.(e);
+      if (e.defaultPrevented) return;
+
+      switch (e.key) {
+        case 'ArrowDown':
+          e.preventDefault();
+          if (!open) {
+            setOpen(true);
+            if (!e.altKey) moveTo(findEnabled(0, 1));
+          } else {
+            moveTo(findEnabled(activeIndex + 1, 1));
+          }
+          break;
+        case 'ArrowUp':
+          e.preventDefault();
+          if (!open) {
+            setOpen(true);
+            moveTo(findEnabled(filtered.length - 1, -1));
+          } else {
+            moveTo(findEnabled(activeIndex - 1, -1));
+          }
+          break;
+        case 'Home':
+          if (open) {
+            e.preventDefault();
+            moveTo(findEnabled(0, 1));
+          }
+          break;
+        case 'End':
+          if (open) {
+            e.preventDefault();
+            moveTo(findEnabled(filtered.length - 1, -1));
+          }
+          break;
+        case 'Enter':
+          if (open && activeIndex >= 0) {
+            e.preventDefault();
+            select(filtered[activeIndex]);
+          }
+          break;
+        case 'Escape':
+          if (open) {
+            e.preventDefault();
+            setOpen(false);
+            setActiveIndex(-1);
+          } else if (inputText) {
+            e.preventDefault();
+            select(null);
+          }
+          break;
+        case 'Tab':
+          setOpen(false);
+          break;
+      }
+    };
+
+    const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+      setOpen(false);
+      setActiveIndex(-1);
+      setQuery('');
+      // Strict selection: text that isn't an option reverts to the current selection
+      if (!allowCustomValue && inputText !== (selectedOption?.label ?? '')) {
+        setInputText(selectedOption?.label ?? '');
+      }
+      onBlur?.(e);
+    };
+
+    const handleClick = (e: React.MouseEvent<HTMLInputElement>) => {
+      setOpen(true);
+      onClick?.(e);
+    };
+
+    return (
+      <div ref={wrapperRef} className="relative">
+        <InputField
+          {...props}
+          messages={messageOverrides}
+          ref={inputRef}
+          id={inputId}
+          label={label}
+          size={size}
+          disabled={disabled}
+          value={inputText}
+          onValueChange={handleTextChange}
+          onKeyDown={handleKeyDown}
+          onBlur={handleBlur}
+          onClick={handleClick}
+          autoComplete="off"
+          role="combobox"
+          aria-expanded={open}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          aria-activedescendant={open && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+          endAdornment={
+            <>
+              {loadingOptions && <Loader2 className={`${fieldStyles.icon} animate-spin`} />}
+              <button
+                type="button"
+                tabIndex={-1}
+                disabled={disabled}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => {
+                  setOpen((prev) => !prev);
+                  inputRef.current?.focus();
+                }}
+                className={iconButtonClasses}
+                aria-label={open ? messages.hideOptions : messages.showOptions}
+              >
+                <ChevronDown className={`${fieldStyles.icon} transition-transform ${open ? 'rotate-180' : ''}`} />
+              </button>
+            </>
+          }
+        />
+
+        {/* Popover */}
+        <div
+          hidden={!open}
+          style={{ top: popoverTop }}
+          className="absolute z-20 left-0 right-0 rounded-lg border border-field-border bg-field-background shadow-lg"
+        >
+          <div
+            ref={listboxRef}
+            id={listboxId}
+            role="listbox"
+            aria-label={label}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+            style={{ maxHeight: LISTBOX_MAX_HEIGHT }}
+            className="overflow-auto"
+          >
+            <div style={{ position: 'relative', height: virtual ? filtered.length * itemHeight : undefined }}>
+              {filtered.slice(windowStart, windowEnd).map((option, offset) => {
+                const index = windowStart + offset;
+                const isSelected = option.value === selectedValue;
+                return (
+                  <div
+                    key={option.value}
+                    id={optionId(index)}
+                    role="option"
+                    aria-selected={isSelected}
+                    aria-disabled={option.disabled || undefined}
+                    aria-setsize={filtered.length}
+                    aria-posinset={index + 1}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onMouseEnter={() => !option.disabled && setActiveIndex(index)}
+                    onClick={() => !option.disabled && select(option)}
+                    style={
+                      virtual
+                        ? { position: 'absolute', top: index * itemHeight, left: 0, right: 0, height: itemHeight }
+                        : { height: itemHeight }
+                    }
+                    className={`
+                      flex items-center gap-2 px-3 cursor-pointer
+                      ${fieldStyles.text}
+                      text-field-text
+                      ${index === activeIndex ? 'bg-primary-500/10' : ''}
+                      ${isSelected ? 'font-medium' : ''}
+                      ${option.disabled ? 'cursor-not-allowed opacity-50' : ''}
+                    `}
+                  >
+                    <span className="truncate">{highlightMatch(option.label, query)}</span>
+                    {isSelected && <Check className="ms-auto w-4 h-4 flex-shrink-0 text-primary-500" />}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {filtered.length === 0 && (
+            <p className={`px-3 py-2 text-field-muted ${fieldStyles.text}`}>
+              {loadingOptions ? messages.loadingOptions : emptyText ?? messages.noResults}
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+);
+
+Combobox.displayName = 'Combobox';
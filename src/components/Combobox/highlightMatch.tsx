@@ -0,0 +1,26 @@
+import React from 'react';
+
+/** Wraps every case-insensitive occurrence of `query` in `text` with a `<mark>` */
+export function highlightMatch(text: string, query: string): React.ReactNode {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return text;
+
+  const parts: React.ReactNode[] = [];
+  const haystack = text.toLowerCase();
+  let from = 0;
+  let index = haystack.indexOf(needle);
+
+  while (index !== -1) {
+    if (index > from) parts.push(text.slice(from, index));
+    parts.push(
+      <mark key={index} className="bg-transparent font-semibold text-primary-600 dark:text-primary-400">
+        {text.slice(index, index + needle.length)}
+      </mark>
+    );
+    from = index + needle.length;
+    index = haystack.indexOf(needle, from);
+  }
+
+  if (from < text.length) parts.push(text.slice(from));
+  return parts;
+}
@@ -0,0 +1,3 @@
+export { Combobox } from './Combobox';
+export type { ComboboxProps, ComboboxOption } from './Combobox';
+export { highlightMatch } from './highlightMatch';
@@ -0,0 +1,223 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { FieldSize, iconButtonClasses } from '../InputField/styles';
+import { useFieldStyles } from '../Theme/ThemeContext';
+import type { Messages } from '../Locale/messages';
+import { addDays, addMonths, fromISO, isOutOfRange, isSameDay, today, weekdayOf } from './dateFormat';
+
+export interface CalendarProps {
+  /** Selected date, or the start of a range */
+  start: string | null;
+  /** End of a range */
+  end?: string | null;
+  /** Whether dates between start and end are highlighted */
+  range?: boolean;
+  /** Date with keyboard focus; its month is shown */
+  focusedDate: string;
+  onFocusedDateChange: (date: string) => void;
+  onSelect: (date: string) => void;
+  /** Called when Escape is pressed */
+  onClose: () => void;
+  min?: string;
+  max?: string;
+  isDateDisabled?: (date: string) => boolean;
+  locale?: string;
+  /** First day of the week, 0 = Sunday */
+  weekStartsOn: number;
+  size: FieldSize;
+  messages: Messages;
+  /** Whether the focused day takes focus on mount */
+  autoFocus?: boolean;
+}
+
+const WEEKS = 6;
+
+/** Month grid following the WAI-ARIA date picker dialog pattern */
+export const Calendar = ({
+  start,
+  end = null,
+  range = false,
+  focusedDate,
+  onFocusedDateChange,
+  onSelect,
+  onClose,
+  min,
+  max,
+  isDateDisabled,
+  locale,
+  weekStartsOn,
+  size,
+  messages,
+  autoFocus = false,
+}: CalendarProps) => {
+  const fieldStyles = useFieldStyles(size);
+  const headingId = `calendar-${useId().replace(/:/g, '')}-heading`;
+  const gridRef = useRef<HTMLTableElement>(null);
+  const [hoveredDate, setHoveredDate] = useState<string | null>(null);
+
+  // Dates are UTC midnight, so every formatter has to read them in UTC
+  const formatters = useMemo(
+    () => ({
+      month: new Intl.DateTimeFormat(locale, { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+      weekdayShort: new Intl.DateTimeFormat(locale, { weekday: 'short', timeZone: 'UTC' }),
+      weekdayLong: new Intl.DateTimeFormat(locale, { weekday: 'long', timeZone: 'UTC' }),
+      day: new Intl.DateTimeFormat(locale, { day: 'numeric', timeZone: 'UTC' }),
+      full: new Intl.DateTimeFormat(locale, { dateStyle: 'full', timeZone: 'UTC' }),
+    }),
+    [locale]
+  );
+
+  const monthStart = `${focusedDate.slice(0, 8)}01`;
+  const gridStart = addDays(monthStart, -((weekdayOf(monthStart) - weekStartsOn + 7) % 7));
+  const weeks = Array.from({ length: WEEKS }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => addDays(gridStart, week * 7 + day))
+  );
+  const currentDate = today();
+
+  const isDisabled = (date: string) => !!isOutOfRange(date, min?.slice(0, 10), max?.slice(0, 10)) || !!isDateDisabled?.(date);
+
+  // While only the start is chosen, the hovered or focused day previews the range end
+  const rangeEnd = end ?? (range && start ? hoveredDate ?? focusedDate : null);
+  const [rangeFrom, rangeTo] =
+    start && rangeEnd && rangeEnd.slice(0, 10) < start.slice(0, 10) ? [rangeEnd, start] : [start, rangeEnd];
+  const isInRange = (date: string) =>
+    range && !!rangeFrom && !!rangeTo && date > rangeFrom.slice(0, 10) && date < rangeTo.slice(0, 10);
+
+  // Focus follows the focused date after keyboard moves and on open
+  const focusPending = useRef(autoFocus);
+  useEffect(() => {
+    if (!focusPending.current) return;
+    focusPending.current = false;
+    gridRef.current?.querySelector<HTMLElement>(`[data-date="${focusedDate}"]`)?.focus();
+  }, [focusedDate]);
+
+  const moveFocus = (date: string) => {
+    focusPending.current = true;
+    onFocusedDateChange(date);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTableElement>) => {
+    const rtl = getComputedStyle(e.currentTarget).direction === 'rtl';
+    const weekday = (weekdayOf(focusedDate) - weekStartsOn + 7) % 7;
+    const actions: Record<string, () => string> = {
+      ArrowLeft: () => addDays(focusedDate, rtl ? 1 : -1),
+      ArrowRight: () => addDays(focusedDate, rtl ? -1 : 1),
+      ArrowUp: () => addDays(focusedDate, -7),
+      ArrowDown: () => addDays(focusedDate, 7),
+      Home: () => addDays(focusedDate, -weekday),
+      End: () => addDays(focusedDate, 6 - weekday),
+      PageUp: () => addMonths(focusedDate, e.shiftKey ? -12 : -1),
+      PageDown: () => addMonths(focusedDate, e.shiftKey ? 12 : 1),
+    };
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (actions[e.key]) {
+      e.preventDefault();
+      moveFocus(actions[e.key]());
+    }
+  };
+
+  const weekdays = weeks[0].map((date) => fromISO(date) as Date);
+
+  return (
+    <div className={`p-3 border-0 ${fieldStyles.text}`}>
+      {/* Month Navigation */}
+      <div className="flex items-center justify-between gap-2 mb-2 border-0">
+        <button
+          type="button"
+          onClick={() => onFocusedDateChange(addMonths(focusedDate, -1))}
+          className={`${iconButtonClasses} border-0 rtl:rotate-180`}
+          aria-label={messages.previousMonth}
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <h2 id={headingId} className="font-medium text-field-text border-0" aria-live="polite">
+          {formatters.month.format(fromISO(monthStart) as Date)}
+        </h2>
+        <button
+          type="button"
+          onClick={() => onFocusedDateChange(addMonths(focusedDate, 1))}
+          className={`${iconButtonClasses} border-0 rtl:rotate-180`}
+          aria-label={messages.nextMonth}
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Day Grid */}
+      <table
+        ref={gridRef}
+        role="grid"
+        aria-labelledby={headingId}
+        onKeyDown={handleKeyDown}
+        onMouseLeave={() => setHoveredDate(null)}
+        className="w-full border-0 border-collapse"
+      >
+        <thead>
+          <tr className="border-0">
+            {weekdays.map((date) => (
+              <th
+                key={date.getUTCDay()}
+                scope="col"
+                abbr={formatters.weekdayLong.format(date)}
+                className="pb-1 font-normal text-field-muted text-xs border-0"
+              >
+                {formatters.weekdayShort.format(date)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {weeks.map((week) => (
+            <tr key={week[0]} className="border-0">
+              {week.map((date) => {
+                // Days of the neighbouring months stay empty
+                if (date.slice(0, 7) !== monthStart.slice(0, 7)) {
+                  return <td key={date} role="gridcell" className="border-0" />;
+                }
+
+                const disabled = isDisabled(date);
+                const selected = isSameDay(date, start) || (range && isSameDay(date, end));
+                const inRange = isInRange(date);
+                const focused = date === focusedDate;
+
+                return (
+                  <td key={date} role="gridcell" aria-selected={selected} className="p-0.5 border-0 text-center">
+                    <button
+                      type="button"
+                      data-date={date}
+                      tabIndex={focused ? 0 : -1}
+                      onClick={() => !disabled && onSelect(date)}
+                      onMouseEnter={() => setHoveredDate(date)}
+                      onFocus={() => !focused && onFocusedDateChange(date)}
+                      aria-label={formatters.full.format(fromISO(date) as Date)}
+                      aria-disabled={disabled || undefined}
+                      aria-current={date === currentDate ? 'date' : undefined}
+                      className={`
+                        w-9 h-9 rounded-md border-0 outline-none
+                        focus-visible:ring-2 focus-visible:ring-field-focus
+                        ${selected
+                          ? 'bg-primary-500 text-white'
+                          : inRange
+                            ? 'bg-primary-500/10 text-field-text'
+                            : 'text-field-text hover:bg-field-text/10'}
+                        ${date === currentDate && !selected ? 'font-semibold text-primary-600 dark:text-primary-400' : ''}
+                        ${disabled ? 'cursor-not-allowed opacity-40 line-through' : ''}
+                      `}
+                    >
+                      {formatters.day.format(fromISO(date) as Date)}
+                    </button>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+Calendar.displayName = 'Calendar';
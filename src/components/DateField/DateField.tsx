@@ -0,0 +1,306 @@
+import React, { forwardRef, useCallback, useId, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { Calendar as CalendarIcon } from 'lucide-react';
+import { InputField, InputFieldProps, ValueChangeReason } from '../InputField';
+import { usePopoverTop } from '../InputField/usePopoverTop';
+import { iconButtonClasses } from '../InputField/styles';
+import { useFieldStyles } from '../Theme/ThemeContext';
+import { useLocale, useMessages } from '../Locale/LocaleContext';
+import { Calendar } from './Calendar';
+import {
+  dateMask,
+  DateRange,
+  firstDayOfWeek,
+  formatDate,
+  fromISO,
+  getDateFormat,
+  isOutOfRange,
+  parseDate,
+  today,
+} from './dateFormat';
+
+interface DateFieldBaseProps
+  extends Omit<
+    InputFieldProps,
+    'value' | 'defaultValue' | 'onValueChange' | 'type' | 'mask' | 'onMaskedChange' | 'min' | 'max' | 'endAdornment'
+  > {
+  /** Earliest allowed date as an ISO string; with a time only that moment onwards */
+  min?: string;
+  /** Latest allowed date as an ISO string */
+  max?: string;
+  /** Returns `true` for dates that can't be chosen, e.g. weekends; receives `YYYY-MM-DD` */
+  isDateDisabled?: (date: string) => boolean;
+  /** Whether a 24-hour time follows the date; values become `YYYY-MM-DDTHH:mm` */
+  withTime?: boolean;
+  /** BCP 47 locale of the typed format and the calendar; defaults to the LocaleProvider's, then the browser's */
+  locale?: string;
+  /** First day of the calendar week, 0 = Sunday; defaults to the locale's where the browser knows it */
+  weekStartsOn?: number;
+}
+
+export interface SingleDateFieldProps extends DateFieldBaseProps {
+  range?: false;
+  /** Selected date as an ISO string, `null` when empty. Makes the field controlled */
+  value?: string | null;
+  /** Initial date of an uncontrolled field */
+  defaultValue?: string | null;
+  /** Callback with the ISO date, or `null` while the text is empty or not a valid date */
+  onValueChange?: (value: string | null) => void;
+}
+
+export interface RangeDateFieldProps extends DateFieldBaseProps {
+  /** Whether a start and an end date are chosen */
+  range: true;
+  /** Selected range; makes the field controlled */
+  value?: DateRange;
+  /** Initial range of an uncontrolled field */
+  defaultValue?: DateRange;
+  /** Callback with both ends; an end is `null` until it is a valid date */
+  onValueChange?: (value: DateRange) => void;
+}
+
+export type DateFieldProps = SingleDateFieldProps | RangeDateFieldProps;
+
+type DatePair = [string | null, string | null];
+
+const RANGE_SEPARATOR = ' – ';
+
+const toPair = (value: string | DateRange | null | undefined): DatePair =>
+  !value ? [null, null] : typeof value === 'string' ? [value, null] : [value.start, value.end];
+
+export const DateField = forwardRef<HTMLInputElement, DateFieldProps>((props, ref) => {
+  const {
+    range = false,
+    value: valueProp,
+    defaultValue,
+    onValueChange,
+    min,
+    max,
+    isDateDisabled,
+    withTime = false,
+    locale: localeProp,
+    weekStartsOn,
+    size = 'md',
+    id,
+    idPrefix = 'date',
+    disabled = false,
+    readOnly,
+    placeholder,
+    rules,
+    onKeyDown,
+    onBlur,
+    messages: messageOverrides,
+    ...inputProps
+  } = props;
+  const { locale: contextLocale } = useLocale();
+  const locale = localeProp ?? contextLocale;
+  const messages = useMessages(messageOverrides);
+  const fieldStyles = useFieldStyles(size);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  useImperativeHandle(ref, () => inputRef.current as HTMLInputElement);
+
+  const reactId = useId();
+  const inputId = id || `${idPrefix}-${reactId.replace(/:/g, '')}`;
+  const popoverId = `${inputId}-calendar`;
+
+  const isControlled = valueProp !== undefined;
+  const [localValue, setLocalValue] = useState(() => toPair(defaultValue));
+  const [start, end] = isControlled ? toPair(valueProp) : localValue;
+
+  // Text being edited; null shows the formatted value
+  const [draft, setDraft] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+  const [focusedDate, setFocusedDate] = useState(today);
+
+  const format = useMemo(() => getDateFormat(locale), [locale]);
+  const limitFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone: 'UTC' }),
+    [locale]
+  );
+
+  const formatPair = ([from, to]: DatePair) => {
+    const text = formatDate(from, format, withTime);
+    return range && to ? `${text}${RANGE_SEPARATOR}${formatDate(to, format, withTime)}` : text;
+  };
+
+  // Only the digits count, so each end of a range is a fixed number of them
+  const parseText = (text: string) => {
+    const digits = text.replace(/\D/g, '');
+    const length = withTime ? 12 : 8;
+    return range
+      ? [parseDate(digits.slice(0, length), format, withTime), parseDate(digits.slice(length), format, withTime)]
+      : [parseDate(digits, format, withTime), null];
+  };
+
+  const mask = range
+    ? `${dateMask(format, withTime)}${RANGE_SEPARATOR}${dateMask(format, withTime)}`
+    : dateMask(format, withTime);
+  const segments = messages.dateSegments;
+  const segmentHint =
+    format.order.map((segment) => segments[segment]).join(format.separator) +
+    (withTime ? ` ${segments.hour}:${segments.minute}` : '');
+
+  const formatLimit = (limit: string) => limitFormatter.format(fromISO(limit.slice(0, 10)) as Date);
+
+  const dateError = (text: string) => {
+    const dates = parseText(text);
+    if (dates.includes(undefined)) return messages.invalidDate;
+    for (const date of dates) {
+      if (!date) continue;
+      const outOfRange = isOutOfRange(date, min, max);
+      if (outOfRange === 'min') return messages.dateBeforeMin(formatLimit(min as string));
+      if (outOfRange === 'max') return messages.dateAfterMax(formatLimit(max as string));
+      if (isDateDisabled?.(date.slice(0, 10))) return messages.dateUnavailable;
+    }
+    const [from, to] = dates;
+    return from && to && to < from ? messages.rangeEndBeforeStart : undefined;
+  };
+
+  const commit = useCallback((next: DatePair) => {
+    if (!isControlled) setLocalValue(next);
+    if (next[0] === start && next[1] === end) return;
+    if (range) {
+      (onValueChange as RangeDateFieldProps['onValueChange'])?.({ start: next[0], end: next[1] });
+    } else {
+      (onValueChange as SingleDateFieldProps['onValueChange'])?.(next[0]);
+    }
+  }, [isControlled, start, end, range, onValueChange]);
+
+  const handleTextChange = (text: string, reason: ValueChangeReason) => {
+    setDraft(null);
+    if (reason === 'clear') return commit([null, null]);
+    if (reason === 'reset') return commit(toPair(defaultValue));
+
+    setDraft(text);
+    const [from, to] = parseText(text);
+    commit([from ?? null, to ?? null]);
+  };
+
+  const popoverTop = usePopoverTop(open, inputRef, wrapperRef);
+
+  const openCalendar = () => {
+    // Start on the selection, or today kept within the limits
+    const initial = (start ?? today()).slice(0, 10);
+    const outOfRange = isOutOfRange(initial, min?.slice(0, 10), max?.slice(0, 10));
+    setFocusedDate(outOfRange === 'min' ? (min as string).slice(0, 10) : outOfRange === 'max' ? (max as string).slice(0, 10) : initial);
+    setOpen(true);
+  };
+
+  const closeCalendar = () => {
+    setOpen(false);
+    inputRef.current?.focus();
+  };
+
+  // A picked day keeps the time already entered
+  const withTimeOf = (date: string, previous: string | null) =>
+    withTime ? `${date}T${previous?.slice(11, 16) || '00:00'}` : date;
+
+  const selectDate = (date: string) => {
+    setDraft(null);
+    if (!range) {
+      commit([withTimeOf(date, start), null]);
+      closeCalendar();
+    } else if (!start || end) {
+      // First click of a range starts a new one
+      commit([withTimeOf(date, start), null]);
+    } else {
+      const [from, to] = date < start.slice(0, 10) ? [date, start.slice(0, 10)] : [start.slice(0, 10), date];
+      commit([withTimeOf(from, start), withTimeOf(to, end)]);
+      closeCalendar();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    onKeyDown?.(e);
+    if (e.defaultPrevented || disabled || readOnly) return;
+
+    if (e.key === 'ArrowDown' && !open) {
+      e.preventDefault();
+      openCalendar();
+    } else if (e.key === 'Escape' && open) {
+      e.preventDefault();
+      setOpen(false);
+    }
+  };
+
+  // Reformat once the user is done typing; invalid text stays so its error can show
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    if (draft !== null && !dateError(draft)) setDraft(null);
+    onBlur?.(e);
+  };
+
+  // Focus moving into the calendar keeps it open; anywhere else closes it
+  const handleWrapperBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!wrapperRef.current?.contains(e.relatedTarget as Node | null)) setOpen(false);
+  };
+
+  return (
+    <div ref={wrapperRef} className="relative" onBlur={handleWrapperBlur}>
+      <InputField
+        {...inputProps}
+        messages={messageOverrides}
+        ref={inputRef}
+        id={inputId}
+        size={size}
+        disabled={disabled}
+        readOnly={readOnly}
+        value={draft ?? formatPair([start, end])}
+        onValueChange={handleTextChange}
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+        mask={mask}
+        placeholder={placeholder ?? (range ? `${segmentHint}${RANGE_SEPARATOR}${segmentHint}` : segmentHint)}
+        rules={{ ...rules, validate: (text, values) => dateError(text) ?? rules?.validate?.(text, values) }}
+        autoComplete="off"
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        aria-controls={open ? popoverId : undefined}
+        endAdornment={
+          <button
+            type="button"
+            tabIndex={-1}
+            disabled={disabled || readOnly}
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => (open ? closeCalendar() : openCalendar())}
+            className={iconButtonClasses}
+            aria-label={open ? messages.hideCalendar : messages.showCalendar}
+          >
+            <CalendarIcon className={fieldStyles.icon} />
+          </button>
+        }
+      />
+
+      {/* Popover */}
+      {open && (
+        <div
+          id={popoverId}
+          role="dialog"
+          aria-label={messages.chooseDate}
+          tabIndex={-1}
+          style={{ top: popoverTop }}
+          className="absolute z-20 start-0 rounded-lg border border-field-border bg-field-background shadow-lg outline-none"
+        >
+          <Calendar
+            start={start}
+            end={end}
+            range={range}
+            focusedDate={focusedDate}
+            onFocusedDateChange={setFocusedDate}
+            onSelect={selectDate}
+            onClose={closeCalendar}
+            min={min}
+            max={max}
+            isDateDisabled={isDateDisabled}
+            locale={locale}
+            weekStartsOn={weekStartsOn ?? firstDayOfWeek(locale)}
+            size={size}
+            messages={messages}
+            autoFocus
+          />
+        </div>
+      )}
+    </div>
+  );
+});
+
+DateField.displayName = 'DateField';
@@ -0,0 +1,161 @@
+/** Order and separator of the numeric date segments in a locale */
+export interface DateFormat {
+  order: ('day' | 'month' | 'year')[];
+  /** Separator between segments, e.g. `/` for en-US or `.` for de-DE */
+  separator: string;
+}
+
+/** Start and end of a range as ISO strings; either is `null` until chosen */
+export interface DateRange {
+  start: string | null;
+  end: string | null;
+}
+
+// Dates are handled as UTC midnight so daylight saving shifts never change the day
+const ISO_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?$/;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// `Date.UTC` maps years below 100 to the 1900s, `setUTCFullYear` doesn't
+const utcDate = (year: number, month: number, day: number, hour = 0, minute = 0) => {
+  const date = new Date(Date.UTC(2000, 0, 1, hour, minute));
+  date.setUTCFullYear(year, month - 1, day);
+  return date;
+};
+
+/** Reads the segment order and separator from the locale's short numeric date */
+export function getDateFormat(locale?: string): DateFormat {
+  const parts = new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit' }).formatToParts(
+    new Date(Date.UTC(2024, 11, 31))
+  );
+  const order = parts
+    .map((part) => part.type)
+    .filter((type): type is DateFormat['order'][number] => type === 'day' || type === 'month' || type === 'year');
+  // Only plain punctuation is kept; it also has to be a literal in the input mask
+  const literal = parts.find((part) => part.type === 'literal')?.value ?? '';
+  return {
+    order: order.length === 3 ? order : ['month', 'day', 'year'],
+    separator: literal.match(/[./-]/)?.[0] ?? '/',
+  };
+}
+
+export function isValidDate(year: number, month: number, day: number): boolean {
+  const date = utcDate(year, month, day);
+  return (
+    year >= 1 && date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+  );
+}
+
+const toISO = (date: Date) =>
+  `${pad(date.getUTCFullYear(), 4)}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+/** Parses `YYYY-MM-DD` or `YYYY-MM-DDTHH:mm` into a UTC `Date`; `null` when malformed */
+export function fromISO(iso: string): Date | null {
+  const match = ISO_PATTERN.exec(iso);
+  if (!match) return null;
+  const [year, month, day, hour = 0, minute = 0] = match.slice(1).filter(Boolean).map(Number);
+  if (!isValidDate(year, month, day) || hour > 23 || minute > 59) return null;
+  return utcDate(year, month, day, hour, minute);
+}
+
+/** Today's date in the user's time zone */
+export function today(): string {
+  const now = new Date();
+  return `${pad(now.getFullYear(), 4)}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+export function addDays(iso: string, days: number): string {
+  const date = fromISO(iso.slice(0, 10)) as Date;
+  date.setUTCDate(date.getUTCDate() + days);
+  return toISO(date);
+}
+
+/** Moves by whole months, keeping the day where the target month has it (Jan 31 + 1 month = Feb 29) */
+export function addMonths(iso: string, months: number): string {
+  const date = fromISO(iso.slice(0, 10)) as Date;
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  date.setUTCDate(Math.min(day, daysInMonth(date.getUTCFullYear(), date.getUTCMonth() + 1)));
+  return toISO(date);
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return utcDate(year, month + 1, 0).getUTCDate();
+}
+
+/** Day of the week, 0 = Sunday */
+export function weekdayOf(iso: string): number {
+  return (fromISO(iso.slice(0, 10)) as Date).getUTCDay();
+}
+
+/** First day of the week in the locale (0 = Sunday), where the browser knows it */
+export function firstDayOfWeek(locale?: string): number {
+  type WeekInfo = { firstDay: number };
+  try {
+    const info = new Intl.Locale(locale ?? navigator.language) as Intl.Locale & {
+      getWeekInfo?: () => WeekInfo;
+      weekInfo?: WeekInfo;
+    };
+    const firstDay = (info.getWeekInfo?.() ?? info.weekInfo)?.firstDay;
+    return firstDay === undefined ? 0 : firstDay % 7;
+  } catch {
+    return 0;
+  }
+}
+
+/** Compares the date parts only */
+export const isSameDay = (a: string | null, b: string | null) => !!a && !!b && a.slice(0, 10) === b.slice(0, 10);
+
+/** Whether `value` falls before `min` or after `max`; limits without a time compare whole days */
+export function isOutOfRange(value: string, min?: string, max?: string): 'min' | 'max' | undefined {
+  if (min && value.slice(0, min.length) < min) return 'min';
+  if (max && value.slice(0, max.length) > max) return 'max';
+  return undefined;
+}
+
+/** Input mask for one date, e.g. `99/99/9999` or `99.99.9999 99:99` */
+export function dateMask({ order, separator }: DateFormat, withTime: boolean): string {
+  const date = order.map((segment) => (segment === 'year' ? '9999' : '99')).join(separator);
+  return withTime ? `${date} 99:99` : date;
+}
+
+/** Formats an ISO string in the locale's segment order, e.g. `31.12.2024 14:30` */
+export function formatDate(iso: string | null, format: DateFormat, withTime: boolean): string {
+  const date = iso ? fromISO(iso) : null;
+  if (!date) return '';
+  const segments = {
+    day: pad(date.getUTCDate()),
+    month: pad(date.getUTCMonth() + 1),
+    year: pad(date.getUTCFullYear(), 4),
+  };
+  const text = format.order.map((segment) => segments[segment]).join(format.separator);
+  return withTime ? `${text} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}` : text;
+}
+
+/**
+ * Parses a date typed in the locale's segment order. Only the digits count,
+ * so separators may be missing or different. Returns `null` for empty text and
+ * `undefined` when the text is incomplete or not a real date.
+ */
+export function parseDate(text: string, format: DateFormat, withTime: boolean): string | null | undefined {
+  const digits = text.replace(/\D/g, '');
+  if (!digits) return null;
+  if (digits.length !== (withTime ? 12 : 8)) return undefined;
+
+  const segments: Record<string, number> = {};
+  let offset = 0;
+  for (const segment of format.order) {
+    const length = segment === 'year' ? 4 : 2;
+    segments[segment] = Number(digits.slice(offset, offset + length));
+    offset += length;
+  }
+  if (!isValidDate(segments.year, segments.month, segments.day)) return undefined;
+
+  const date = `${pad(segments.year, 4)}-${pad(segments.month)}-${pad(segments.day)}`;
+  if (!withTime) return date;
+
+  const hour = Number(digits.slice(8, 10));
+  const minute = Number(digits.slice(10, 12));
+  return hour > 23 || minute > 59 ? undefined : `${date}T${pad(hour)}:${pad(minute)}`;
+}
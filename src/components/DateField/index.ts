@@ -0,0 +1,6 @@
+export { DateField } from './DateField';
+export type { DateFieldProps, SingleDateFieldProps, RangeDateFieldProps } from './DateField';
+export { Calendar } from './Calendar';
+export type { CalendarProps } from './Calendar';
+export { formatDate, getDateFormat, parseDate } from './dateFormat';
+export type { DateFormat, DateRange } from './dateFormat';
@@ -0,0 +1,99 @@
+import React, { forwardRef, useCallback, useMemo } from 'react';
+import { FormContext, useForm } from './FormContext';
+import { FormStore } from './formStore';
+import { DraftOptions, StoredDraft } from './draft';
+import { FormDraft, useFormDraft } from './useFormDraft';
+import { useLocale, useMessages } from '../Locale/LocaleContext';
+
+export interface FormProps extends Omit<React.FormHTMLAttributes<HTMLFormElement>, 'onSubmit' | 'onInvalid'> {
+  /** Store created with `useForm`; a private one is created when omitted */
+  form?: FormStore;
+  /** Called with every field value when the form is submitted and valid */
+  onSubmit?: (values: Record<string, string>, event: React.FormEvent<HTMLFormElement>) => void;
+  /** Called with the field errors when a submit is blocked */
+  onInvalid?: (errors: Record<string, string>, event: React.FormEvent<HTMLFormElement>) => void;
+  /** Saves changed values as a draft and offers to restore it on the next visit */
+  draft?: DraftOptions;
+  /** Replaces the built-in restore prompt */
+  renderDraftPrompt?: (draft: FormDraft & { pending: StoredDraft }) => React.ReactNode;
+}
+
+/** Offers the draft found on mount; the form stays usable while it is shown */
+const DraftPrompt = ({ pending, restore, discard }: FormDraft & { pending: StoredDraft }) => {
+  const { locale } = useLocale();
+  const messages = useMessages();
+  const savedAt = useMemo(
+    () => new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(pending.savedAt),
+    [locale, pending.savedAt]
+  );
+
+  return (
+    <div
+      role="status"
+      className="flex flex-wrap items-center gap-3 mb-6 p-3 rounded-field border border-field-info text-sm text-field-text"
+    >
+      <span className="flex-1 border-0">{messages.draftFound(savedAt)}</span>
+      <button
+        type="button"
+        onClick={restore}
+        className="px-3 py-1.5 rounded-md border-0 bg-primary-500 text-white font-medium hover:bg-primary-600"
+      >
+        {messages.restoreDraft}
+      </button>
+      <button
+        type="button"
+        onClick={discard}
+        className="px-3 py-1.5 rounded-md border-0 text-field-muted hover:text-field-text"
+      >
+        {messages.discardDraft}
+      </button>
+    </div>
+  );
+};
+
+export const Form = forwardRef<HTMLFormElement, FormProps>(
+  ({ form, onSubmit, onInvalid, onReset, draft: draftOptions, renderDraftPrompt, children, ...props }, ref) => {
+    const ownStore = useForm();
+    const store = form ?? ownStore;
+    const draft = useFormDraft(store, draftOptions);
+    const { pending, clear: clearDraft } = draft;
+
+    const handleSubmit = useCallback((e: React.FormEvent<HTMLFormElement>) => {
+      e.preventDefault();
+      const storeValid = store.validate();
+      // Fires `invalid` on each failing control so fields reveal their errors. The DOM
+      // also carries errors the store doesn't track, such as async validation results.
+      const domValid = e.currentTarget.checkValidity();
+      if (!storeValid || !domValid) {
+        if (!store.focusFirstInvalid()) {
+          e.currentTarget.querySelector<HTMLElement>('input:invalid, textarea:invalid, select:invalid')?.focus();
+        }
+        onInvalid?.(store.getErrors(), e);
+        return;
+      }
+      // The values have been handed over, so the draft is no longer needed
+      clearDraft();
+      onSubmit?.(store.getValues(), e);
+    }, [store, onSubmit, onInvalid, clearDraft]);
+
+    const handleReset = useCallback((e: React.FormEvent<HTMLFormElement>) => {
+      store.reset();
+      clearDraft();
+      onReset?.(e);
+    }, [store, onReset, clearDraft]);
+
+    return (
+      <FormContext.Provider value={store}>
+        <form ref={ref} noValidate onSubmit={handleSubmit} onReset={handleReset} {...props}>
+          {/* Draft Restore Prompt */}
+          {pending && (renderDraftPrompt
+            ? renderDraftPrompt({ ...draft, pending })
+            : <DraftPrompt {...draft} pending={pending} />)}
+          {children}
+        </form>
+      </FormContext.Provider>
+    );
+  }
+);
+
+Form.displayName = 'Form';
@@ -0,0 +1,31 @@
+import { createContext, useCallback, useContext, useState, useSyncExternalStore } from 'react';
+import { createFormStore, FieldState, FormStore, FormStoreOptions } from './formStore';
+
+export const FormContext = createContext<FormStore | null>(null);
+
+/** Returns the store of the enclosing `Form`, or `null` outside of one */
+export function useFormContext(): FormStore | null {
+  return useContext(FormContext);
+}
+
+/** Creates a form store that lives as long as the calling component */
+export function useForm(options?: FormStoreOptions): FormStore {
+  const [store] = useState(() => createFormStore(options));
+  return store;
+}
+
+/**
+ * Subscribes to one field's slice of the form state. The caller re-renders
+ * only when that field changes. Returns `undefined` without a store or name.
+ */
+export function useFormField(store: FormStore | null, name: string | undefined): FieldState | undefined {
+  const subscribe = useCallback(
+    (listener: () => void) => (store && name ? store.subscribe(name, listener) : () => {}),
+    [store, name]
+  );
+  const getSnapshot = useCallback(
+    () => (store && name ? store.getFieldState(name) : undefined),
+    [store, name]
+  );
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
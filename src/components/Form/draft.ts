@@ -0,0 +1,81 @@
+/** Where drafts are kept as serialized strings; adapters for async stores may return promises */
+export interface DraftStorage {
+  get: (key: string) => string | null | Promise<string | null>;
+  set: (key: string, value: string) => void | Promise<void>;
+  remove: (key: string) => void | Promise<void>;
+}
+
+/** A saved draft as it is serialized */
+export interface StoredDraft {
+  /** Schema version of the form that saved it */
+  version: number;
+  /** Milliseconds since the epoch */
+  savedAt: number;
+  values: Record<string, string>;
+}
+
+export interface DraftOptions {
+  /** Identifies the form; drafts are stored under `form-draft:<id>` */
+  id: string;
+  /** Defaults to `localStorage` */
+  storage?: DraftStorage;
+  /** Minimum milliseconds between two saves while the user types */
+  throttle?: number;
+  /** Milliseconds after which a draft is discarded instead of offered; defaults to a week */
+  ttl?: number;
+  /** Version of the form's fields; a draft saved under another version goes through `migrate` */
+  version?: number;
+  /** Converts the values of an older draft; return `undefined` to discard it */
+  migrate?: (values: Record<string, string>, fromVersion: number) => Record<string, string> | undefined;
+}
+
+export const DEFAULT_DRAFT_TTL = 7 * 24 * 60 * 60 * 1000;
+
+export const draftKey = (id: string) => `form-draft:${id}`;
+
+/** Keeps drafts in memory, e.g. for tests; `entries` exposes what was saved */
+export function memoryStorageAdapter(initial: Record<string, string> = {}): DraftStorage & { entries: Map<string, string> } {
+  const entries = new Map(Object.entries(initial));
+  return {
+    entries,
+    get: (key) => entries.get(key) ?? null,
+    set: (key, value) => {
+      entries.set(key, value);
+    },
+    remove: (key) => {
+      entries.delete(key);
+    },
+  };
+}
+
+const isValues = (value: unknown): value is Record<string, string> =>
+  typeof value === 'object' &&
+  value !== null &&
+  Object.values(value).every((item) => typeof item === 'string');
+
+/**
+ * Parses a stored draft and brings it to the current version. Returns `null`
+ * for drafts that are malformed, expired or can't be migrated.
+ */
+export function parseDraft(
+  serialized: string | null,
+  { ttl = DEFAULT_DRAFT_TTL, version = 1, migrate }: Pick<DraftOptions, 'ttl' | 'version' | 'migrate'>,
+  now = Date.now()
+): StoredDraft | null {
+  if (!serialized) return null;
+
+  let draft: Partial<StoredDraft>;
+  try {
+    draft = JSON.parse(serialized);
+  } catch {
+    return null;
+  }
+  if (typeof draft?.savedAt !== 'number' || typeof draft.version !== 'number' || !isValues(draft.values)) {
+    return null;
+  }
+  if (now - draft.savedAt > ttl) return null;
+  if (draft.version === version) return draft as StoredDraft;
+
+  const values = migrate?.(draft.values, draft.version);
+  return values ? { version, savedAt: draft.savedAt, values } : null;
+}
@@ -0,0 +1,204 @@
+export interface FieldState {
+  /** Current value */
+  value: string;
+  /** First failing rule message, if any */
+  error?: string;
+  /** Whether the field has lost focus at least once */
+  touched: boolean;
+  /** Whether the value differs from its default */
+  dirty: boolean;
+}
+
+/** Validates a field value; `values` holds every registered field for cross-field rules */
+export type FieldValidator = (value: string, values: Record<string, string>) => string | undefined;
+
+export interface FieldRegistration {
+  /** Value used when the form has no default for this field */
+  defaultValue?: string;
+  /** Validator run whenever any value in the form changes */
+  validate?: FieldValidator;
+  /** Returns the element to focus when this field is the first invalid one */
+  getElement?: () => HTMLElement | null;
+  /** Whether the value is left out of saved drafts, e.g. for passwords */
+  excludeFromDraft?: boolean;
+}
+
+export interface FormStore {
+  /** Registers a field and returns a function that unregisters it */
+  register: (name: string, registration: FieldRegistration) => () => void;
+  /** Changes the options of a registered field, keeping its state, and re-runs the validators */
+  updateRegistration: (name: string, patch: Partial<FieldRegistration>) => void;
+  /** Subscribes to changes of a single field's state */
+  subscribe: (name: string, listener: () => void) => () => void;
+  /** Subscribes to changes of any field's state */
+  watch: (listener: () => void) => () => void;
+  getFieldState: (name: string) => FieldState;
+  getValues: () => Record<string, string>;
+  getErrors: () => Record<string, string>;
+  /** Changed values of the fields that may be kept in a draft */
+  getDraftValues: () => Record<string, string>;
+  setValue: (name: string, value: string) => void;
+  setTouched: (name: string, touched?: boolean) => void;
+  /** Re-runs every validator and returns whether the form is valid */
+  validate: () => boolean;
+  /** Focuses the first invalid field in document order and returns whether one was found */
+  focusFirstInvalid: () => boolean;
+  /** Restores default values (or the given ones) and clears touched/dirty */
+  reset: (values?: Record<string, string>) => void;
+}
+
+export interface FormStoreOptions {
+  /** Initial values keyed by field name */
+  defaultValues?: Record<string, string>;
+}
+
+const EMPTY_STATE: FieldState = { value: '', touched: false, dirty: false };
+
+/**
+ * Creates a form store. Field state objects are replaced only when they change,
+ * and only the listeners of changed fields are notified, so each field
+ * re-renders independently of the rest of the form.
+ */
+export function createFormStore({ defaultValues = {} }: FormStoreOptions = {}): FormStore {
+  let defaults = { ...defaultValues };
+  const states = new Map<string, FieldState>();
+  const registrations = new Map<string, FieldRegistration>();
+  const listeners = new Map<string, Set<() => void>>();
+  const watchers = new Set<() => void>();
+
+  const notify = (name: string) => {
+    listeners.get(name)?.forEach((listener) => listener());
+    watchers.forEach((watcher) => watcher());
+  };
+
+  const defaultOf = (name: string) =>
+    defaults[name] ?? registrations.get(name)?.defaultValue ?? '';
+
+  const getFieldState = (name: string) => states.get(name) ?? EMPTY_STATE;
+
+  const getValues = () => {
+    const values: Record<string, string> = {};
+    registrations.forEach((_, name) => {
+      values[name] = getFieldState(name).value;
+    });
+    return values;
+  };
+
+  const getErrors = () => {
+    const errors: Record<string, string> = {};
+    registrations.forEach((_, name) => {
+      const { error } = getFieldState(name);
+      if (error) errors[name] = error;
+    });
+    return errors;
+  };
+
+  const update = (name: string, patch: Partial<FieldState>) => {
+    const current = getFieldState(name);
+    const changed = (Object.keys(patch) as (keyof FieldState)[]).some(
+      (key) => patch[key] !== current[key]
+    );
+    if (!changed) return;
+    states.set(name, { ...current, ...patch });
+    notify(name);
+  };
+
+  // Every validator sees the whole form, so any value change can affect any field's error
+  const revalidate = () => {
+    const values = getValues();
+    registrations.forEach(({ validate }, name) => {
+      update(name, { error: validate?.(values[name], values) });
+    });
+  };
+
+  return {
+    register(name, registration) {
+      // A copy, so updateRegistration can change it without touching the caller's object
+      const entry = { ...registration };
+      registrations.set(name, entry);
+      if (!states.has(name)) {
+        states.set(name, { ...EMPTY_STATE, value: defaultOf(name) });
+      }
+      revalidate();
+      return () => {
+        if (registrations.get(name) !== entry) return;
+        registrations.delete(name);
+        states.delete(name);
+        revalidate();
+      };
+    },
+
+    updateRegistration(name, patch) {
+      const entry = registrations.get(name);
+      if (!entry) return;
+      Object.assign(entry, patch);
+      revalidate();
+    },
+
+    subscribe(name, listener) {
+      let set = listeners.get(name);
+      if (!set) {
+        set = new Set();
+        listeners.set(name, set);
+      }
+      set.add(listener);
+      return () => {
+        set!.delete(listener);
+      };
+    },
+
+    watch(listener) {
+      watchers.add(listener);
+      return () => {
+        watchers.delete(listener);
+      };
+    },
+
+    getFieldState,
+    getValues,
+    getErrors,
+
+    getDraftValues() {
+      const values: Record<string, string> = {};
+      registrations.forEach(({ excludeFromDraft }, name) => {
+        const { value, dirty } = getFieldState(name);
+        if (dirty && !excludeFromDraft) values[name] = value;
+      });
+      return values;
+    },
+
+    setValue(name, value) {
+      update(name, { value, dirty: value !== defaultOf(name) });
+      revalidate();
+    },
+
+    setTouched(name, touched = true) {
+      update(name, { touched });
+    },
+
+    validate() {
+      revalidate();
+      return Object.keys(getErrors()).length === 0;
+    },
+
+    focusFirstInvalid() {
+      const invalid = Array.from(registrations.entries())
+        .filter(([name]) => getFieldState(name).error)
+        .map(([, { getElement }]) => getElement?.())
+        .filter((element): element is HTMLElement => !!element)
+        .sort((a, b) =>
+          a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+        );
+      invalid[0]?.focus();
+      return invalid.length > 0;
+    },
+
+    reset(values) {
+      if (values) defaults = { ...values };
+      registrations.forEach((_, name) => {
+        update(name, { value: defaultOf(name), touched: false, dirty: false });
+      });
+      revalidate();
+    },
+  };
+}
@@ -0,0 +1,11 @@
+export { Form } from './Form';
+export type { FormProps } from './Form';
+export { FormContext, useForm, useFormContext, useFormField } from './FormContext';
+export { createFormStore } from './formStore';
+export type { FieldState, FieldValidator, FieldRegistration, FormStore, FormStoreOptions } from './formStore';
+export { useFormDraft } from './useFormDraft';
+export type { FormDraft } from './useFormDraft';
+export { DEFAULT_DRAFT_TTL, draftKey, memoryStorageAdapter, parseDraft } from './draft';
+export { localStorageAdapter, sessionStorageAdapter, webStorageAdapter } from '../InputField/webStorage';
+export type { WebStorageAdapter } from '../InputField/webStorage';
+export type { DraftOptions, DraftStorage, StoredDraft } from './draft';
@@ -0,0 +1,118 @@
+import { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InputField } from '../InputField';
+import { dispatchNativeInput } from '../InputField/nativeValue';
+import { DraftOptions, DraftStorage, memoryStorageAdapter } from './draft';
+import { Form } from './Form';
+
+const KEY = 'form-draft:signup';
+
+const storedDraft = (values: Record<string, string>, savedAt = Date.now(), version = 1) =>
+  JSON.stringify({ version, savedAt, values });
+
+describe('form drafts', () => {
+  let root: Root;
+  let onSubmit: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+    vi.useFakeTimers();
+    onSubmit = vi.fn();
+    const container = document.createElement('div');
+    document.body.append(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  async function render(draft: Omit<DraftOptions, 'id'>) {
+    await act(async () => {
+      root.render(
+        <Form draft={{ id: 'signup', throttle: 500, ...draft }} onSubmit={onSubmit}>
+          <InputField name="name" label="Name" />
+          <InputField name="coupon" label="Coupon" excludeFromDraft />
+          <InputField name="password" label="Password" type="password" />
+          <button type="submit">Sign up</button>
+        </Form>
+      );
+    });
+  }
+
+  const input = (name: string) => document.querySelector<HTMLInputElement>(`input[name="${name}"]`)!;
+  const button = (text: string) =>
+    Array.from(document.querySelectorAll('button')).find((element) => element.textContent === text)!;
+
+  async function type(name: string, value: string) {
+    await act(async () => dispatchNativeInput(input(name), value));
+  }
+
+  it('saves the changed values on a throttle, leaving out passwords and excluded fields', async () => {
+    const storage = memoryStorageAdapter();
+    await render({ storage });
+
+    await type('name', 'Ann');
+    await type('coupon', 'WELCOME');
+    await type('password', 'hunter2');
+    expect(storage.entries.has(KEY)).toBe(false);
+
+    await act(async () => vi.advanceTimersByTime(500));
+    expect(JSON.parse(storage.entries.get(KEY)!).values).toEqual({ name: 'Ann' });
+  });
+
+  it('offers a saved draft and restores it', async () => {
+    const storage = memoryStorageAdapter({ [KEY]: storedDraft({ name: 'Ann' }) });
+    await render({ storage });
+
+    expect(document.querySelector('[role="status"]')).not.toBeNull();
+    expect(input('name').value).toBe('');
+
+    await act(async () => button('Restore').click());
+    expect(input('name').value).toBe('Ann');
+    expect(document.querySelector('[role="status"]')).toBeNull();
+  });
+
+  it('drops an expired draft without offering it', async () => {
+    const storage = memoryStorageAdapter({ [KEY]: storedDraft({ name: 'Ann' }, Date.now() - 2000) });
+    await render({ storage, ttl: 1000 });
+
+    expect(document.querySelector('[role="status"]')).toBeNull();
+    expect(storage.entries.has(KEY)).toBe(false);
+  });
+
+  it('migrates a draft saved by an older version', async () => {
+    const storage = memoryStorageAdapter({ [KEY]: storedDraft({ fullName: 'Ann' }) });
+    await render({ storage, version: 2, migrate: (values) => ({ name: values.fullName }) });
+
+    await act(async () => button('Restore').click());
+    expect(input('name').value).toBe('Ann');
+  });
+
+  it('clears the draft after a successful submit', async () => {
+    const storage = memoryStorageAdapter();
+    await render({ storage });
+
+    await type('name', 'Ann');
+    await act(async () => button('Sign up').click());
+    await act(async () => vi.advanceTimersByTime(500));
+
+    expect(onSubmit).toHaveBeenCalled();
+    expect(storage.entries.has(KEY)).toBe(false);
+  });
+
+  it('reads an inline adapter once instead of on every render', async () => {
+    const storage = memoryStorageAdapter({ [KEY]: storedDraft({ name: 'Ann' }) });
+    const get = vi.spyOn(storage, 'get');
+    const inline = (): DraftStorage => ({ get: storage.get, set: storage.set, remove: storage.remove });
+
+    await render({ storage: inline() });
+    await render({ storage: inline() });
+
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(document.querySelector('[role="status"]')).not.toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useLatestRef } from '../InputField/useLatestRef';
+import { localStorageAdapter } from '../InputField/webStorage';
+import { FormStore } from './formStore';
+import { DraftOptions, draftKey, parseDraft, StoredDraft } from './draft';
+
+export interface FormDraft {
+  /** Draft found on mount, until it is restored or discarded */
+  pending: StoredDraft | null;
+  /** Applies the pending draft to the form */
+  restore: () => void;
+  /** Deletes the pending draft and starts saving the current values */
+  discard: () => void;
+  /** Deletes the saved draft and any save still waiting, e.g. after a successful submit */
+  clear: () => void;
+}
+
+/**
+ * Saves the changed values of a form store on a throttle and offers the draft
+ * found on mount for restoring. Nothing is read until after mount, so server
+ * and client render the same markup. Without options nothing is stored.
+ */
+export function useFormDraft(store: FormStore, options: DraftOptions | undefined): FormDraft {
+  const { id, storage = localStorageAdapter, throttle = 1000, ttl, version = 1, migrate } = options ?? {};
+  const key = id ? draftKey(id) : undefined;
+  const [pending, setPending] = useState<StoredDraft | null>(null);
+  // Saving waits until the stored draft is read and answered, so it is never overwritten unseen
+  const [ready, setReady] = useState(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  // `migrate` is usually an inline function, like the adapter
+  const parseOptions = useLatestRef({ ttl, version, migrate });
+  const storageRef = useLatestRef(storage);
+
+  useEffect(() => {
+    if (!key) return;
+    const storage = storageRef.current;
+    let cancelled = false;
+    setPending(null);
+    setReady(false);
+    Promise.resolve(storage.get(key)).then(
+      (serialized) => {
+        if (cancelled) return;
+        const draft = parseDraft(serialized, parseOptions.current);
+        // Expired, malformed or unmigratable drafts are dropped without asking
+        if (serialized && !draft) Promise.resolve(storage.remove(key)).catch(() => {});
+        const hasValues = !!draft && Object.keys(draft.values).length > 0;
+        setPending(hasValues ? draft : null);
+        setReady(!hasValues);
+      },
+      () => !cancelled && setReady(true)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  // A draft without changed values is removed rather than saved empty
+  const save = useCallback(() => {
+    clearTimeout(timerRef.current);
+    timerRef.current = undefined;
+    if (!key) return;
+    const draft: StoredDraft = { version, savedAt: Date.now(), values: store.getDraftValues() };
+    const storage = storageRef.current;
+    const write = Object.keys(draft.values).length ? storage.set(key, JSON.stringify(draft)) : storage.remove(key);
+    Promise.resolve(write).catch(() => {});
+  }, [key, store, version]);
+
+  // Throttled: the first change starts the timer, and the save takes the values when it runs
+  useEffect(() => {
+    if (!key || !ready) return;
+    const unwatch = store.watch(() => {
+      if (timerRef.current === undefined) timerRef.current = setTimeout(save, throttle);
+    });
+    // A waiting save still runs when the page is hidden or closed
+    const handlePageHide = () => timerRef.current !== undefined && save();
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      unwatch();
+      window.removeEventListener('pagehide', handlePageHide);
+      if (timerRef.current !== undefined) save();
+    };
+  }, [key, ready, store, save, throttle]);
+
+  const restore = useCallback(() => {
+    if (!pending) return;
+    Object.entries(pending.values).forEach(([name, value]) => store.setValue(name, value));
+    setPending(null);
+    setReady(true);
+  }, [pending, store]);
+
+  const clear = useCallback(() => {
+    clearTimeout(timerRef.current);
+    timerRef.current = undefined;
+    if (key) Promise.resolve(storageRef.current.remove(key)).catch(() => {});
+  }, [key]);
+
+  const discard = useCallback(() => {
+    clear();
+    setPending(null);
+    setReady(true);
+  }, [clear]);
+
+  return { pending, restore, discard, clear };
+}
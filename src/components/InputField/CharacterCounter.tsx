@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { FieldSize } from './styles';
+import { useFieldStyles } from '../Theme/ThemeContext';
+import type { Messages } from '../Locale/messages';
+
+interface CharacterCounterProps {
+  id: string;
+  /** Characters used, counted in graphemes */
+  count: number;
+  /** Limit, if any */
+  max?: number;
+  size: FieldSize;
+  messages: Messages;
+}
+
+// The counter turns amber once this share of the limit is used
+const WARNING_RATIO = 0.9;
+// Screen readers hear the count once typing pauses, not on every keystroke
+const ANNOUNCE_DELAY = 600;
+
+export function CharacterCounter({ id, count, max, size, messages }: CharacterCounterProps) {
+  const fieldStyles = useFieldStyles(size);
+  const remaining = max !== undefined ? max - count : undefined;
+  const atLimit = remaining !== undefined && remaining <= 0;
+  const nearLimit = max !== undefined && count >= max * WARNING_RATIO;
+
+  const [announcement, setAnnouncement] = useState('');
+
+  useEffect(() => {
+    if (remaining === undefined || !nearLimit) {
+      setAnnouncement('');
+      return;
+    }
+    const timer = setTimeout(() => {
+      setAnnouncement(atLimit ? messages.characterLimitReached : messages.charactersRemaining(remaining));
+    }, ANNOUNCE_DELAY);
+    return () => clearTimeout(timer);
+  }, [remaining, nearLimit, atLimit, messages]);
+
+  return (
+    <>
+      <p
+        id={id}
+        className={`mt-1 text-end tabular-nums ${fieldStyles.message} ${
+          atLimit
+            ? 'text-field-danger-text'
+            : nearLimit
+              ? 'text-field-warning-text'
+              : 'text-field-muted'
+        }`}
+      >
+        <span aria-hidden="true">{max !== undefined ? `${count} / ${max}` : count}</span>
+        <span className="sr-only">{messages.characterCount(count, max)}</span>
+      </p>
+      <div className="sr-only" aria-live="polite">
+        {announcement}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { UseInputFieldReturn } from './useInputField';
+import type { FieldSize, FieldVariant } from './styles';
+
+export interface InputFieldContextValue extends UseInputFieldReturn {
+  size: FieldSize;
+  variant: FieldVariant;
+  /** Adds a description ID to the input's `aria-describedby`; returns the cleanup */
+  registerDescription: (id: string) => () => void;
+}
+
+export const InputFieldContext = createContext<InputFieldContextValue | null>(null);
+
+/** Returns the state of the enclosing `InputField.Root` for custom parts */
+export function useInputFieldContext(): InputFieldContextValue {
+  const context = useContext(InputFieldContext);
+  if (!context) {
+    throw new Error('InputField parts must be rendered inside <InputField.Root>');
+  }
+  return context;
+}
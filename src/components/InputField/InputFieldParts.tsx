@@ -0,0 +1,438 @@
+import React, { forwardRef, useCallback, useId, useState } from 'react';
+import { AlertCircle, AlertTriangle, Check, CheckCircle2, Copy, Eye, EyeOff, Info, X, Loader2 } from 'lucide-react';
+import { useInputField, UseInputFieldProps } from './useInputField';
+import { InputFieldContext, useInputFieldContext } from './InputFieldContext';
+import { useIsomorphicLayoutEffect } from './useIsomorphicLayoutEffect';
+import { useSlotWidth } from './useSlotWidth';
+import {
+  addonClasses,
+  errorClasses,
+  FieldSize,
+  FieldStatus,
+  FieldVariant,
+  helperClasses,
+  iconButtonClasses,
+  labelClasses,
+  statusMessageClasses,
+} from './styles';
+import { useFieldStyles } from '../Theme/ThemeContext';
+
+// Distance of the adornment slots from the inline start/end edge, and the gap between slot and text (px)
+const SLOT_INSET = 12;
+const SLOT_GAP = 8;
+// Horizontal padding of a floating label, which keeps the border gap wider than the text
+const LABEL_PADDING = 4;
+
+// A floated label covers the border; on filled fields its lower half matches the field
+const floatingLabelBackground = (variant: FieldVariant) =>
+  variant === 'filled'
+    ? 'linear-gradient(rgb(var(--ui-color-background)) 50%, rgb(var(--ui-color-surface)) 50%)'
+    : 'rgb(var(--ui-color-background))';
+
+// Full class names, so Tailwind finds them in the source
+const statusInputClasses: Record<FieldStatus, string> = {
+  error: 'input-field-error',
+  warning: 'input-field-warning',
+  success: 'input-field-success',
+  info: 'input-field-info',
+};
+
+const statusIcons: Record<FieldStatus, { icon: typeof Info; className: string }> = {
+  error: { icon: AlertCircle, className: 'text-field-danger-text' },
+  warning: { icon: AlertTriangle, className: 'text-field-warning-text' },
+  success: { icon: CheckCircle2, className: 'text-field-success-text' },
+  info: { icon: Info, className: 'text-field-info-text' },
+};
+
+const RequiredMark = () => <span className="text-field-danger ms-1">*</span>;
+
+export interface InputFieldRootProps extends UseInputFieldProps {
+  /** Visual variant of the input */
+  variant?: FieldVariant;
+  /** Size of the input */
+  size?: FieldSize;
+  /** Additional CSS classes for the wrapper */
+  className?: string;
+  /** The field's parts, in any layout */
+  children?: React.ReactNode;
+}
+
+/** Owns the field state and shares it with the parts inside; `ref` is forwarded to the input */
+export const Root = forwardRef<HTMLInputElement, InputFieldRootProps>(
+  ({ variant = 'outlined', size = 'md', className = '', children, ...props }, ref) => {
+    // Descriptions register on mount, so their IDs reach the input without being listed by hand
+    const [descriptionIds, setDescriptionIds] = useState<string[]>([]);
+    const registerDescription = useCallback((id: string) => {
+      setDescriptionIds((ids) => [...ids, id]);
+      return () => setDescriptionIds((ids) => ids.filter((existing) => existing !== id));
+    }, []);
+
+    const field = useInputField(
+      {
+        ...props,
+        'aria-describedby': [...descriptionIds, props['aria-describedby']].filter(Boolean).join(' ') || undefined,
+      },
+      ref
+    );
+    return (
+      <InputFieldContext.Provider value={{ ...field, size, variant, registerDescription }}>
+        <div className={`input-field-base ${className}`}>{children}</div>
+      </InputFieldContext.Provider>
+    );
+  }
+);
+
+Root.displayName = 'InputField.Root';
+
+export type InputFieldLabelProps = React.LabelHTMLAttributes<HTMLLabelElement>;
+
+/** Label of the input, marked with an asterisk when the field is required */
+export const Label = forwardRef<HTMLLabelElement, InputFieldLabelProps>(
+  ({ className = '', children, ...props }, ref) => {
+    const { size, variant, isRequired, getLabelProps } = useInputFieldContext();
+    const fieldStyles = useFieldStyles(size, variant);
+
+    return (
+      <label ref={ref} {...getLabelProps({ className: `${labelClasses} ${fieldStyles.text} ${className}`, ...props })}>
+        {children}
+        {isRequired && <RequiredMark />}
+      </label>
+    );
+  }
+);
+
+Label.displayName = 'InputField.Label';
+
+export interface InputFieldControlProps
+  extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'prefix' | 'size' | 'children'> {
+  /** Content inside the input on the leading side, e.g. an icon */
+  startAdornment?: React.ReactNode;
+  /** Content inside the input on the trailing side, before the built-in controls */
+  endAdornment?: React.ReactNode;
+  /** Text addon attached in front of the input, e.g. "https://" */
+  prefix?: React.ReactNode;
+  /** Text addon attached after the input, e.g. "kg" */
+  suffix?: React.ReactNode;
+  /** Label inside the field that floats onto the border when focused or filled; replaces `InputField.Label` */
+  floatingLabel?: React.ReactNode;
+  /** Controls on the trailing side, e.g. `InputField.ClearButton`, `.PasswordToggle` and `.CopyButton` */
+  children?: React.ReactNode;
+}
+
+/** The input with its adornments, addons and trailing controls; the loading spinner is built in */
+export const Control = ({
+  startAdornment,
+  endAdornment,
+  prefix,
+  suffix,
+  floatingLabel,
+  placeholder,
+  className = '',
+  style,
+  children,
+  ...props
+}: InputFieldControlProps) => {
+  const {
+    size,
+    variant,
+    status,
+    statusMessage,
+    isRequired,
+    isDisabled,
+    isReadOnly,
+    isLoading,
+    isValidating,
+    showSpinner,
+    showClear,
+    showToggle,
+    showCopy,
+    messages,
+    getInputProps,
+    getLabelProps,
+  } = useInputFieldContext();
+  const fieldStyles = useFieldStyles(size, variant);
+
+  // Slot widths drive the input padding so text never runs under the adornments
+  const [startSlotRef, startSlotWidth] = useSlotWidth();
+  const [endSlotRef, endSlotWidth] = useSlotWidth();
+
+  // Built-in controls render nothing while hidden, so they only open the slot when shown
+  const hasVisibleControls = React.Children.toArray(children).some((child) => {
+    if (!React.isValidElement(child)) return true;
+    if (child.type === ClearButton) return showClear;
+    if (child.type === PasswordToggle) return showToggle;
+    if (child.type === CopyButton) return showCopy;
+    return true;
+  });
+  // The spinner takes the status icon's place while it runs
+  const statusIcon = status && !showSpinner ? statusIcons[status] : undefined;
+  const hasEndSlot = !!endAdornment || hasVisibleControls || showSpinner || !!statusIcon;
+
+  // The floating label lines up with the input text and stops before the end controls
+  const hasFloatingLabel = !!floatingLabel;
+  const labelStart =
+    startSlotWidth !== undefined
+      ? `${SLOT_INSET + startSlotWidth + SLOT_GAP - LABEL_PADDING}px`
+      : startAdornment
+        ? `calc(2.5rem - ${LABEL_PADDING}px)`
+        : `calc(var(--ui-space-${size}-x, 1rem) - ${LABEL_PADDING}px)`;
+  const labelEnd =
+    endSlotWidth !== undefined
+      ? `${SLOT_INSET + endSlotWidth + SLOT_GAP}px`
+      : hasEndSlot
+        ? '3rem'
+        : `var(--ui-space-${size}-x, 1rem)`;
+
+  return (
+    <div className="flex">
+      {/* Prefix Addon */}
+      {prefix && (
+        <span className={`${addonClasses} ${fieldStyles.text} rounded-s-field border-e-0`}>
+          {prefix}
+        </span>
+      )}
+
+      <div className="relative flex-1 min-w-0">
+        {/* Start Adornment */}
+        {startAdornment && (
+          <div
+            ref={startSlotRef}
+            className={`absolute start-3 top-1/2 transform -translate-y-1/2 flex items-center text-field-icon ${fieldStyles.text}`}
+          >
+            {startAdornment}
+          </div>
+        )}
+
+        <input
+          {...getInputProps({
+            ...props,
+            // `:placeholder-shown` tells the floating label whether the field is empty
+            placeholder: hasFloatingLabel ? placeholder || ' ' : placeholder,
+            style: {
+              paddingInlineStart: startSlotWidth !== undefined ? SLOT_INSET + startSlotWidth + SLOT_GAP : undefined,
+              paddingInlineEnd: endSlotWidth !== undefined ? SLOT_INSET + endSlotWidth + SLOT_GAP : undefined,
+              ...style,
+            },
+            className: `
+              input-field-input
+              ${hasFloatingLabel ? 'input-field-floating' : ''}
+              ${fieldStyles.field}
+              ${fieldStyles.variant}
+              border ${prefix && suffix ? 'rounded-none' : prefix ? 'rounded-e-field' : suffix ? 'rounded-s-field' : 'rounded-field'}
+              text-field-text
+              placeholder-field-muted
+              ${status ? statusInputClasses[status] : ''}
+              ${isReadOnly ? 'input-field-readonly' : ''}
+              ${isDisabled ? 'cursor-not-allowed opacity-50' : ''}
+              ${isLoading ? 'cursor-wait' : ''}
+              ${startAdornment ? 'ps-10' : ''}
+              ${hasEndSlot ? 'pe-12' : ''}
+              ${className}
+            `,
+          })}
+        />
+
+        {/* Floating Label: after the input so its focus, fill and autofill state can style it */}
+        {hasFloatingLabel && (
+          <label
+            {...getLabelProps({
+              className: `input-field-floating-label ${fieldStyles.text}`,
+              style: {
+                insetInlineStart: labelStart,
+                maxWidth: `calc(100% - ${labelStart} - ${labelEnd})`,
+                '--input-field-label-bg': floatingLabelBackground(variant),
+              } as React.CSSProperties,
+            })}
+          >
+            {floatingLabel}
+            {isRequired && <RequiredMark />}
+          </label>
+        )}
+
+        {/* End Slot: custom adornment followed by the controls */}
+        {hasEndSlot && (
+          <div
+            ref={endSlotRef}
+            className="absolute end-3 top-1/2 transform -translate-y-1/2 flex items-center gap-1"
+          >
+            {endAdornment && (
+              <div className={`flex items-center text-field-icon ${fieldStyles.text}`}>
+                {endAdornment}
+              </div>
+            )}
+
+            {children}
+
+            {/* Status Icon: named for screen readers only when no message says the same */}
+            {statusIcon && (
+              <div className="p-1">
+                <statusIcon.icon
+                  className={`${fieldStyles.icon} ${statusIcon.className}`}
+                  {...(statusMessage
+                    ? { 'aria-hidden': true }
+                    : { role: 'img', 'aria-hidden': false, 'aria-label': messages.statusLabels[status as FieldStatus] })}
+                />
+              </div>
+            )}
+
+            {/* Loading / Validating Spinner */}
+            {showSpinner && (
+              <div className="p-1">
+                <Loader2 className={`${fieldStyles.icon} animate-spin text-field-icon`} />
+                {isValidating && !isLoading && <span className="sr-only">{messages.validating}</span>}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Suffix Addon */}
+      {suffix && (
+        <span className={`${addonClasses} ${fieldStyles.text} rounded-e-field border-s-0`}>
+          {suffix}
+        </span>
+      )}
+    </div>
+  );
+};
+
+Control.displayName = 'InputField.Control';
+
+export type InputFieldDescriptionProps = React.HTMLAttributes<HTMLParagraphElement>;
+
+/** Text describing the input; any number can be rendered and each is announced with it */
+export const Description = forwardRef<HTMLParagraphElement, InputFieldDescriptionProps>(
+  ({ id, className = '', ...props }, ref) => {
+    const { size, variant, ids, registerDescription } = useInputFieldContext();
+    const fieldStyles = useFieldStyles(size, variant);
+    const reactId = useId();
+    const descriptionId = id || `${ids.input}-description-${reactId.replace(/:/g, '')}`;
+
+    useIsomorphicLayoutEffect(() => registerDescription(descriptionId), [registerDescription, descriptionId]);
+
+    return (
+      <p
+        ref={ref}
+        id={descriptionId}
+        className={`${helperClasses} ${fieldStyles.message} ${className}`}
+        {...props}
+      />
+    );
+  }
+);
+
+Description.displayName = 'InputField.Description';
+
+export type InputFieldErrorProps = React.HTMLAttributes<HTMLParagraphElement>;
+
+/** The field's error, shown only while it is invalid; defaults to the current error message */
+export const ErrorMessage = forwardRef<HTMLParagraphElement, InputFieldErrorProps>(
+  ({ className = '', children, ...props }, ref) => {
+    const { size, variant, hasError, error, getErrorProps } = useInputFieldContext();
+    const fieldStyles = useFieldStyles(size, variant);
+
+    if (!hasError) return null;
+
+    return (
+      <p ref={ref} {...getErrorProps({ className: `${errorClasses} ${fieldStyles.message} ${className}`, ...props })}>
+        {children ?? error}
+      </p>
+    );
+  }
+);
+
+ErrorMessage.displayName = 'InputField.Error';
+
+export type InputFieldStatusMessageProps = React.HTMLAttributes<HTMLParagraphElement>;
+
+/** Message of the current status, the error included; errors are alerts, the others polite updates */
+export const StatusMessage = forwardRef<HTMLParagraphElement, InputFieldStatusMessageProps>(
+  ({ className = '', children, ...props }, ref) => {
+    const { size, variant, status, statusMessage, getStatusProps } = useInputFieldContext();
+    const fieldStyles = useFieldStyles(size, variant);
+
+    if (!status || !(children ?? statusMessage)) return null;
+
+    return (
+      <p
+        ref={ref}
+        {...getStatusProps({
+          className: `${statusMessageClasses[status]} ${fieldStyles.message} ${className}`,
+          ...props,
+        })}
+      >
+        {children ?? statusMessage}
+      </p>
+    );
+  }
+);
+
+StatusMessage.displayName = 'InputField.StatusMessage';
+
+export type InputFieldButtonProps = React.ButtonHTMLAttributes<HTMLButtonElement>;
+
+/** Empties the input; shown while a `clearable` field has a value */
+export const ClearButton = forwardRef<HTMLButtonElement, InputFieldButtonProps>(
+  ({ className = '', children, ...props }, ref) => {
+    const { size, variant, showClear, getClearButtonProps } = useInputFieldContext();
+    const fieldStyles = useFieldStyles(size, variant);
+
+    if (!showClear) return null;
+
+    return (
+      <button ref={ref} {...getClearButtonProps({ className: `${iconButtonClasses} ${className}`, ...props })}>
+        {children ?? <X className={fieldStyles.icon} />}
+      </button>
+    );
+  }
+);
+
+ClearButton.displayName = 'InputField.ClearButton';
+
+/** Shows or hides the password; shown on password fields with `showPasswordToggle` */
+export const PasswordToggle = forwardRef<HTMLButtonElement, InputFieldButtonProps>(
+  ({ className = '', children, ...props }, ref) => {
+    const { size, variant, showToggle, showPassword, getToggleProps } = useInputFieldContext();
+    const fieldStyles = useFieldStyles(size, variant);
+
+    if (!showToggle) return null;
+
+    return (
+      <button ref={ref} {...getToggleProps({ className: `${iconButtonClasses} ${className}`, ...props })}>
+        {children ??
+          (showPassword ? <EyeOff className={fieldStyles.icon} /> : <Eye className={fieldStyles.icon} />)}
+      </button>
+    );
+  }
+);
+
+PasswordToggle.displayName = 'InputField.PasswordToggle';
+
+/** Copies the value, also while a password is hidden; shown on `copyable` fields with a value */
+export const CopyButton = forwardRef<HTMLButtonElement, InputFieldButtonProps>(
+  ({ className = '', children, ...props }, ref) => {
+    const { size, variant, showCopy, copyStatus, messages, getCopyButtonProps } = useInputFieldContext();
+    const fieldStyles = useFieldStyles(size, variant);
+
+    if (!showCopy) return null;
+
+    return (
+      <>
+        {/* Copy Confirmation: a live region, so it is announced without moving focus */}
+        <span role="status" className={`border-0 whitespace-nowrap text-field-muted ${fieldStyles.message}`}>
+          {copyStatus === 'copied' ? messages.copied : copyStatus === 'failed' ? messages.copyFailed : ''}
+        </span>
+        <button ref={ref} {...getCopyButtonProps({ className: `${iconButtonClasses} ${className}`, ...props })}>
+          {children ??
+            (copyStatus === 'copied' ? (
+              <Check className={`${fieldStyles.icon} text-field-success-text`} />
+            ) : (
+              <Copy className={fieldStyles.icon} />
+            ))}
+        </button>
+      </>
+    );
+  }
+);
+
+CopyButton.displayName = 'InputField.CopyButton';
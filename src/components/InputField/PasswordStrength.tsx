@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { FieldSize } from './styles';
+import { useFieldStyles } from '../Theme/ThemeContext';
+import { PasswordPolicyResult } from './passwordPolicy';
+import type { Messages } from '../Locale/messages';
+
+interface PasswordStrengthProps {
+  id: string;
+  result: PasswordPolicyResult;
+  size: FieldSize;
+  /** Whether anything has been typed yet */
+  touched: boolean;
+  messages: Messages;
+}
+
+// Strength bar colours, one per score, from the status tokens so themes and dark mode apply
+const strengthColors = [
+  'bg-field-danger',
+  'bg-field-danger',
+  'bg-field-warning',
+  'bg-field-success',
+  'bg-field-success-text',
+];
+
+/** Strength bar and requirement checklist shown under a password InputField */
+export function PasswordStrength({ id, result, size, touched, messages }: PasswordStrengthProps) {
+  const fieldStyles = useFieldStyles(size);
+  const [announcement, setAnnouncement] = useState('');
+  const previous = useRef(result.requirements);
+
+  // Announce each requirement that flips, rather than re-reading the whole list
+  useEffect(() => {
+    const changed = result.requirements.filter((requirement) => {
+      const before = previous.current.find((item) => item.id === requirement.id);
+      return before && before.met !== requirement.met;
+    });
+    previous.current = result.requirements;
+    if (changed.length > 0) {
+      setAnnouncement(
+        changed
+          .map((requirement) => `${requirement.met ? messages.requirementMet : messages.requirementNotMet}: ${requirement.label}`)
+          .join('. ')
+      );
+    }
+  }, [result.requirements, messages]);
+
+  return (
+    <div id={id} className={`mt-2 space-y-2 ${fieldStyles.message}`}>
+      {/* Strength Bar */}
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 gap-1" aria-hidden="true">
+          {[0, 1, 2, 3].map((segment) => (
+            <div
+              key={segment}
+              className={`h-1.5 flex-1 rounded-full border-0 transition-colors duration-200 ${
+                touched && segment < Math.max(result.strength, 1)
+                  ? strengthColors[result.strength]
+                  : 'bg-field-border'
+              }`}
+            />
+          ))}
+        </div>
+        <span className="text-field-helper whitespace-nowrap">
+          {touched ? messages.strengthLabels[result.strength] : messages.passwordStrength}
+        </span>
+      </div>
+
+      {/* Requirement Checklist */}
+      {result.requirements.length > 0 && (
+        <ul className="space-y-1">
+          {result.requirements.map((requirement) => (
+            <li
+              key={requirement.id}
+              className={`flex items-center gap-1.5 ${
+                requirement.met ? 'text-field-success-text' : 'text-field-helper'
+              }`}
+            >
+              {requirement.met ? (
+                <Check className="w-3.5 h-3.5" aria-hidden="true" />
+              ) : (
+                <X className="w-3.5 h-3.5" aria-hidden="true" />
+              )}
+              <span>
+                {requirement.label}
+                <span className="sr-only">{` (${requirement.met ? messages.requirementMet : messages.requirementNotMet})`}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="sr-only" aria-live="polite">
+        {announcement}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Copies text with the async Clipboard API. Where that is missing or denied,
+ * e.g. outside a secure context, a hidden textarea is copied with
+ * `execCommand` and the previous focus is restored. Resolves to whether it worked.
+ */
+export async function copyToClipboard(text: string): Promise<boolean> {
+  try {
+    if (navigator.clipboard?.writeText) {
+      await navigator.clipboard.writeText(text);
+      return true;
+    }
+  } catch {
+    // Fall back below
+  }
+
+  const previousFocus = document.activeElement as HTMLElement | null;
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.setAttribute('readonly', '');
+  textarea.style.position = 'fixed';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  textarea.select();
+
+  let copied = false;
+  try {
+    copied = document.execCommand('copy');
+  } catch {
+    copied = false;
+  }
+  textarea.remove();
+  previousFocus?.focus();
+  return copied;
+}
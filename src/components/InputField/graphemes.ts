@@ -0,0 +1,22 @@
+// Intl.Segmenter is newer than the ES2020 lib this project targets
+type GraphemeSegmenter = { segment(input: string): Iterable<{ segment: string }> };
+type SegmenterConstructor = new (locale?: string, options?: { granularity: 'grapheme' }) => GraphemeSegmenter;
+
+const Segmenter = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+const segmenter = Segmenter ? new Segmenter(undefined, { granularity: 'grapheme' }) : undefined;
+
+/** Splits text into user-perceived characters; falls back to code points without Intl.Segmenter */
+export function splitGraphemes(text: string): string[] {
+  return segmenter ? Array.from(segmenter.segment(text), ({ segment }) => segment) : Array.from(text);
+}
+
+/** Counts user-perceived characters, so "👍🏽" and "é" count as one */
+export function countGraphemes(text: string): number {
+  return splitGraphemes(text).length;
+}
+
+/** Cuts text down to at most `max` user-perceived characters */
+export function truncateGraphemes(text: string, max: number): string {
+  const graphemes = splitGraphemes(text);
+  return graphemes.length > max ? graphemes.slice(0, max).join('') : text;
+}
@@ -1,2 +1,25 @@
 export { InputField } from './InputField';
-export type { InputFieldProps } from './InputField'; 
\ No newline at end of file
+export type { InputFieldProps, ValueChangeReason } from './InputField';
+export { useInputField } from './useInputField';
+export type { UseInputFieldProps, UseInputFieldReturn, InputFieldIds } from './useInputField';
+export { useInputFieldContext } from './InputFieldContext';
+export type { InputFieldContextValue } from './InputFieldContext';
+export type {
+  InputFieldRootProps,
+  InputFieldLabelProps,
+  InputFieldControlProps,
+  InputFieldDescriptionProps,
+  InputFieldErrorProps,
+  InputFieldStatusMessageProps,
+  InputFieldButtonProps,
+} from './InputFieldParts';
+export type { FieldSize, FieldStatus, FieldVariant } from './styles';
+export { validateValue } from './validation';
+export type { ValidationRules, ValidateOn, RuleWithMessage } from './validation';
+export { useAsyncValidation } from './useAsyncValidation';
+export type { AsyncValidator, AsyncValidationOptions, AsyncValidationState } from './useAsyncValidation';
+export { conformToMask, extractRaw, formatMasked } from './mask';
+export type { Mask, MaskFunction, MaskedValue } from './mask';
+export { estimateEntropy, evaluatePassword } from './passwordPolicy';
+export type { PasswordPolicy, PasswordPolicyResult, PasswordRequirement, PasswordStrength } from './passwordPolicy';
+export { countGraphemes, truncateGraphemes } from './graphemes';
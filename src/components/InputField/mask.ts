@@ -0,0 +1,118 @@
+/** Formats the raw (unmasked) characters into the displayed value */
+export type MaskFunction = (unmasked: string) => string;
+
+/**
+ * A pattern string or a mask function. In patterns `9` is a digit, `a` a letter
+ * and `*` a letter or digit; every other character is a literal.
+ */
+export type Mask = string | MaskFunction;
+
+export interface MaskedValue {
+  /** Value as displayed, including literals */
+  masked: string;
+  /** Only the characters the user typed */
+  unmasked: string;
+}
+
+const TOKENS: Record<string, RegExp> = {
+  '9': /\d/,
+  a: /[a-z]/i,
+  '*': /[a-z\d]/i,
+};
+
+const ALPHANUMERIC = /[a-z\d]/i;
+
+const isToken = (char: string) => char in TOKENS;
+
+/** Literal characters a pattern starts with, e.g. `+1 (` for `+1 (999) 999-9999` */
+const literalPrefix = (pattern: string) => {
+  let end = 0;
+  while (end < pattern.length && !isToken(pattern[end])) end++;
+  return pattern.slice(0, end);
+};
+
+/** Pulls the typed characters out of a (possibly partially) masked string */
+export function extractRaw(input: string, mask: Mask): string {
+  if (typeof mask === 'function') {
+    return Array.from(input).filter((char) => ALPHANUMERIC.test(char)).join('');
+  }
+
+  const prefix = literalPrefix(mask);
+  const body = prefix && input.startsWith(prefix) ? input.slice(prefix.length) : input;
+  return Array.from(body).filter((char) => ALPHANUMERIC.test(char)).join('');
+}
+
+/**
+ * Lays raw characters into the mask. Characters that don't fit their slot are
+ * dropped, and literals are only added in front of a typed character so the
+ * caret never lands behind trailing separators.
+ */
+export function formatMasked(raw: string, mask: Mask): MaskedValue {
+  if (typeof mask === 'function') {
+    return { masked: mask(raw), unmasked: raw };
+  }
+
+  let masked = '';
+  let unmasked = '';
+  let pending = '';
+  let rawIndex = 0;
+
+  for (const char of mask) {
+    if (rawIndex >= raw.length) break;
+
+    if (!isToken(char)) {
+      pending += char;
+      continue;
+    }
+
+    // Skip raw characters the slot doesn't accept
+    while (rawIndex < raw.length && !TOKENS[char].test(raw[rawIndex])) rawIndex++;
+    if (rawIndex >= raw.length) break;
+
+    masked += pending + raw[rawIndex];
+    unmasked += raw[rawIndex];
+    pending = '';
+    rawIndex++;
+  }
+
+  return { masked, unmasked };
+}
+
+/** Index in `masked` just after the `count`-th typed character */
+export function caretAfterRaw(masked: string, count: number, mask: Mask): number {
+  if (count <= 0) return 0;
+
+  const prefixLength = typeof mask === 'string' ? literalPrefix(mask).length : 0;
+  let seen = 0;
+  for (let i = prefixLength; i < masked.length; i++) {
+    if (ALPHANUMERIC.test(masked[i])) seen++;
+    if (seen === count) return i + 1;
+  }
+  return masked.length;
+}
+
+/**
+ * Re-masks an edited input value and works out where the caret belongs.
+ * `previous` is the masked value before the edit; when a deletion only removed
+ * a literal, the typed character in front of it is removed instead.
+ */
+export function conformToMask(
+  input: string,
+  caret: number,
+  mask: Mask,
+  previous: string,
+  inputType?: string
+): MaskedValue & { caret: number } {
+  let raw = extractRaw(input, mask);
+  let rawBeforeCaret = extractRaw(input.slice(0, caret), mask).length;
+
+  if (inputType === 'deleteContentBackward' && raw === extractRaw(previous, mask) && rawBeforeCaret > 0) {
+    raw = raw.slice(0, rawBeforeCaret - 1) + raw.slice(rawBeforeCaret);
+    rawBeforeCaret -= 1;
+  }
+
+  const result = formatMasked(raw, mask);
+  // Characters the mask rejected in front of the caret shift it back
+  const accepted = formatMasked(raw.slice(0, rawBeforeCaret), mask).unmasked.length;
+  return { ...result, caret: caretAfterRaw(result.masked, accepted, mask) };
+}
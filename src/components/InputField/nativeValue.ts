@@ -0,0 +1,11 @@
+/**
+ * Sets a control's value the way the browser does and dispatches a real
+ * `input` event, so React's onChange, form libraries and listeners on the
+ * `<form>` all see the change.
+ */
+export function dispatchNativeInput(element: HTMLInputElement | HTMLTextAreaElement, value: string) {
+  const prototype = element instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  const setter = Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+  setter?.call(element, value);
+  element.dispatchEvent(new Event('input', { bubbles: true }));
+}
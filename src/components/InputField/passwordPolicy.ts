@@ -0,0 +1,129 @@
+import { toErrorMessage, ValidationRules } from './validation';
+import { en, Messages } from '../Locale/messages';
+
+export interface PasswordPolicy {
+  /** Minimum number of characters */
+  minLength?: number;
+  /** Require at least one lowercase letter */
+  requireLowercase?: boolean;
+  /** Require at least one uppercase letter */
+  requireUppercase?: boolean;
+  /** Require at least one digit */
+  requireDigit?: boolean;
+  /** Require at least one character that is not a letter or digit */
+  requireSymbol?: boolean;
+  /** Words the password must not contain, compared case-insensitively */
+  bannedWords?: string[];
+  /** Minimum estimated entropy in bits */
+  minEntropy?: number;
+}
+
+export interface PasswordRequirement {
+  /** Stable key of the requirement */
+  id: string;
+  /** Checklist text */
+  label: string;
+  /** Whether the password meets it */
+  met: boolean;
+}
+
+/** 0 = very weak … 4 = very strong */
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordPolicyResult {
+  requirements: PasswordRequirement[];
+  /** Estimated entropy in bits */
+  entropy: number;
+  strength: PasswordStrength;
+  /** Whether every requirement is met */
+  valid: boolean;
+}
+
+// Character pools used for the entropy estimate
+const POOLS: [RegExp, number][] = [
+  [/[a-z]/, 26],
+  [/[A-Z]/, 26],
+  [/\d/, 10],
+  [/[^a-zA-Z\d]/, 33],
+];
+
+/**
+ * Estimates entropy as length × log2(pool size), where the pool is the sum of
+ * the character classes used. Repeated characters only count once per run.
+ */
+export function estimateEntropy(password: string): number {
+  const pool = POOLS.reduce((size, [pattern, poolSize]) => size + (pattern.test(password) ? poolSize : 0), 0);
+  if (pool === 0) return 0;
+  const effectiveLength = password.replace(/(.)\1+/g, '$1').length;
+  return Math.round(effectiveLength * Math.log2(pool));
+}
+
+const strengthOf = (entropy: number): PasswordStrength => {
+  if (entropy < 28) return 0;
+  if (entropy < 36) return 1;
+  if (entropy < 60) return 2;
+  if (entropy < 80) return 3;
+  return 4;
+};
+
+/** Checks a password against a policy; the checklist labels come from `messages`, English by default */
+export function evaluatePassword(password: string, policy: PasswordPolicy, messages: Messages = en): PasswordPolicyResult {
+  const labels = messages.passwordRequirements;
+  const entropy = estimateEntropy(password);
+  const lower = password.toLowerCase();
+  const requirements: PasswordRequirement[] = [];
+
+  if (policy.minLength !== undefined) {
+    requirements.push({
+      id: 'minLength',
+      label: labels.minLength(policy.minLength),
+      met: password.length >= policy.minLength,
+    });
+  }
+  if (policy.requireLowercase) {
+    requirements.push({ id: 'lowercase', label: labels.lowercase, met: /[a-z]/.test(password) });
+  }
+  if (policy.requireUppercase) {
+    requirements.push({ id: 'uppercase', label: labels.uppercase, met: /[A-Z]/.test(password) });
+  }
+  if (policy.requireDigit) {
+    requirements.push({ id: 'digit', label: labels.digit, met: /\d/.test(password) });
+  }
+  if (policy.requireSymbol) {
+    requirements.push({ id: 'symbol', label: labels.symbol, met: /[^a-zA-Z\d]/.test(password) });
+  }
+  if (policy.bannedWords?.length) {
+    requirements.push({
+      id: 'bannedWords',
+      label: labels.bannedWords,
+      met: !!password && !policy.bannedWords.some((word) => lower.includes(word.toLowerCase())),
+    });
+  }
+  if (policy.minEntropy !== undefined) {
+    requirements.push({ id: 'entropy', label: labels.entropy, met: entropy >= policy.minEntropy });
+  }
+
+  return {
+    requirements,
+    entropy,
+    strength: strengthOf(entropy),
+    valid: requirements.every((requirement) => requirement.met),
+  };
+}
+
+/** Adds the policy to the rules so an unmet policy blocks submit like any other rule */
+export function withPasswordPolicy(
+  rules: ValidationRules,
+  policy: PasswordPolicy,
+  messages: Messages = en
+): ValidationRules {
+  return {
+    ...rules,
+    validate: (value, values) => {
+      const custom = rules.validate ? toErrorMessage(rules.validate(value, values), messages.invalid) : undefined;
+      if (custom) return custom;
+      const unmet = evaluatePassword(value, policy, messages).requirements.find((requirement) => !requirement.met);
+      return unmet ? messages.passwordNeeds(unmet.label) : undefined;
+    },
+  };
+}
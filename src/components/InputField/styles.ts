@@ -0,0 +1,33 @@
+import type { SizeStyles } from '../Theme/ThemeContext';
+
+export type { FieldSize, FieldVariant } from '../Theme/ThemeContext';
+
+/** Validation or feedback state of a field */
+export type FieldStatus = 'error' | 'warning' | 'success' | 'info';
+
+// Built-in sizes; padding, radius and colours come from the design tokens
+export const sizeStyles: Record<'sm' | 'md' | 'lg', SizeStyles> = {
+  sm: { field: 'px-field-sm-x py-field-sm-y text-sm', icon: 'w-4 h-4', text: 'text-sm', message: 'text-xs' },
+  md: { field: 'px-field-md-x py-field-md-y text-base', icon: 'w-5 h-5', text: 'text-base', message: 'text-sm' },
+  lg: { field: 'px-field-lg-x py-field-lg-y text-lg', icon: 'w-6 h-6', text: 'text-lg', message: 'text-sm' },
+};
+
+// Built-in variants
+export const variantClasses: Record<'filled' | 'outlined' | 'ghost', string> = {
+  filled: 'bg-field-surface border-field-border',
+  outlined: 'bg-transparent border-field-border',
+  ghost: 'bg-transparent border-transparent hover:bg-field-surface',
+};
+
+export const labelClasses = 'block font-medium mb-2 text-field-label';
+export const helperClasses = 'mt-2 text-field-helper';
+export const errorClasses = 'mt-2 text-field-danger-text';
+export const statusMessageClasses: Record<FieldStatus, string> = {
+  error: errorClasses,
+  warning: 'mt-2 text-field-warning-text',
+  success: 'mt-2 text-field-success-text',
+  info: 'mt-2 text-field-info-text',
+};
+export const iconButtonClasses = 'p-1 text-field-icon hover:text-field-icon-hover disabled:opacity-50';
+export const addonClasses =
+  'inline-flex items-center px-3 border border-field-border bg-field-surface text-field-muted whitespace-nowrap';
@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from 'react';
+import { toErrorMessage } from './validation';
+
+/**
+ * Validates a value remotely. Resolve with `true`/`undefined` when valid, `false`
+ * or a message when invalid. The signal aborts when the value changes again.
+ */
+export type AsyncValidator = (
+  value: string,
+  signal: AbortSignal
+) => Promise<boolean | string | undefined>;
+
+export interface AsyncValidationOptions {
+  /** Milliseconds to wait after the last change before validating */
+  delay?: number;
+  /** Skip validation, e.g. while the value already fails a synchronous rule */
+  skip?: boolean;
+  /** Error shown when the validator resolves with `false` */
+  invalidMessage?: string;
+}
+
+export interface AsyncValidationState {
+  /** Whether a check for the current value is pending or running */
+  validating: boolean;
+  /** Error for the current value, once its check has finished */
+  error?: string;
+}
+
+export function useAsyncValidation(
+  value: string,
+  validator: AsyncValidator | undefined,
+  { delay = 300, skip = false, invalidMessage }: AsyncValidationOptions = {}
+): AsyncValidationState {
+  // The outcome is kept rather than its message, so a new `invalidMessage` applies right away
+  const [result, setResult] = useState<{ value: string; outcome?: boolean | string } | null>(null);
+  const [validating, setValidating] = useState(false);
+
+  const validatorRef = useRef(validator);
+  validatorRef.current = validator;
+  const enabled = !!validator && !skip && value !== '';
+
+  useEffect(() => {
+    if (!enabled) {
+      setValidating(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setValidating(true);
+
+    const timer = setTimeout(() => {
+      validatorRef.current?.(value, controller.signal).then(
+        (outcome) => {
+          // A newer value has aborted this check; its result is stale even if it arrives last
+          if (controller.signal.aborted) return;
+          setResult({ value, outcome });
+          setValidating(false);
+        },
+        () => {
+          // Aborted or failed checks never block the user
+          if (controller.signal.aborted) return;
+          setResult({ value });
+          setValidating(false);
+        }
+      );
+    }, delay);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [value, enabled, delay]);
+
+  return {
+    validating: enabled && validating,
+    error: enabled && result?.value === value ? toErrorMessage(result.outcome, invalidMessage) : undefined,
+  };
+}
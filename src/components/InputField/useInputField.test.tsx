@@ -0,0 +1,39 @@
+import { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InputField } from './InputField';
+import { dispatchNativeInput } from './nativeValue';
+
+describe('character limit', () => {
+  let root: Root;
+
+  beforeEach(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+    const container = document.createElement('div');
+    document.body.append(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    document.body.innerHTML = '';
+  });
+
+  // Email and number inputs have no selection API, so the truncation must not move the caret there
+  it('truncates the counted value of an email input', async () => {
+    const onChange = vi.fn();
+    const onValueChange = vi.fn();
+    await act(async () => {
+      root.render(
+        <InputField label="Email" type="email" showCount maxLength={3} onChange={onChange} onValueChange={onValueChange} />
+      );
+    });
+    const input = document.querySelector('input')!;
+
+    await act(async () => dispatchNativeInput(input, 'abcdef'));
+
+    expect(input.value).toBe('abc');
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onValueChange).toHaveBeenCalledWith('abc', 'input');
+  });
+});
@@ -0,0 +1,567 @@
+import React, { useCallback, useEffect, useId, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { resolveRules, validateValue, ValidateOn, ValidationRules } from './validation';
+import { AsyncValidator, useAsyncValidation } from './useAsyncValidation';
+import { conformToMask, extractRaw, formatMasked, Mask } from './mask';
+import { evaluatePassword, PasswordPolicy, PasswordPolicyResult, withPasswordPolicy } from './passwordPolicy';
+import { countGraphemes, truncateGraphemes } from './graphemes';
+import { dispatchNativeInput } from './nativeValue';
+import { copyToClipboard } from './clipboard';
+import type { FieldStatus } from './styles';
+import { useMessages } from '../Locale/LocaleContext';
+import type { Messages } from '../Locale/messages';
+import { useFormContext, useFormField } from '../Form/FormContext';
+
+/** What caused a value change reported through `onValueChange` */
+export type ValueChangeReason = 'input' | 'clear' | 'paste' | 'reset';
+
+export interface UseInputFieldProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'size' | 'prefix'> {
+  /** Helper text displayed below the input */
+  helperText?: string;
+  /** Error message displayed below the input */
+  errorMessage?: string;
+  /** Whether the input is in an invalid state */
+  invalid?: boolean;
+  /** Feedback state shown by the border, a trailing icon and its message; errors take precedence */
+  status?: FieldStatus;
+  /** Message shown with the warning status; setting it alone implies that status */
+  warningMessage?: string;
+  /** Message shown with the success status; setting it alone implies that status */
+  successMessage?: string;
+  /** Message shown with the info status; setting it alone implies that status */
+  infoMessage?: string;
+  /** Whether the input is in a loading state */
+  loading?: boolean;
+  /** Whether to show a clear button */
+  clearable?: boolean;
+  /** Whether to show password toggle (only for password inputs) */
+  showPasswordToggle?: boolean;
+  /** Callback when clear button is clicked */
+  onClear?: () => void;
+  /** Whether Escape empties the input the way the clear button does */
+  clearOnEscape?: boolean;
+  /** Whether to show a button that copies the value, also while a password is hidden */
+  copyable?: boolean;
+  /** Whether a Form with drafts leaves this value out of them; password fields always are */
+  excludeFromDraft?: boolean;
+  /** Whether the input is required */
+  required?: boolean;
+  /** Declarative validation rules; their first failing message is shown as the error */
+  rules?: ValidationRules;
+  /** When rule errors become visible */
+  validateOn?: ValidateOn;
+  /** Server-side check run after the synchronous rules pass; receives an AbortSignal */
+  asyncValidate?: AsyncValidator;
+  /** Milliseconds to wait after typing stops before running `asyncValidate` */
+  asyncDebounce?: number;
+  /** Whether a check is running; shows the spinner but keeps the input editable */
+  validating?: boolean;
+  /** Input mask: a pattern like `(999) 999-9999` (`9` digit, `a` letter, `*` either) or a format function */
+  mask?: Mask;
+  /** Callback with both the displayed and the raw value whenever a masked value changes */
+  onMaskedChange?: (masked: string, unmasked: string) => void;
+  /** Callback with the new value and what caused the change */
+  onValueChange?: (value: string, reason: ValueChangeReason) => void;
+  /** Prefix for generated element IDs, e.g. to keep micro-frontends on one page apart */
+  idPrefix?: string;
+  /** Password requirements; shows a strength bar and checklist and blocks submit until met */
+  passwordPolicy?: PasswordPolicy;
+  /** Callback with the policy result whenever the password changes */
+  onPasswordPolicyChange?: (result: PasswordPolicyResult) => void;
+  /** Whether to show a character counter; with `maxLength` the limit is enforced in graphemes */
+  showCount?: boolean;
+  /** Overrides of the built-in strings for this field */
+  messages?: Partial<Messages>;
+}
+
+/** Element IDs the field's parts reference each other by */
+export interface InputFieldIds {
+  input: string;
+  helper: string;
+  error: string;
+  /** Message of a warning, success or info status */
+  status: string;
+  policy: string;
+  capsLock: string;
+  counter: string;
+}
+
+type PropGetter<T extends HTMLElement, Extra = object> = (
+  overrides?: React.HTMLAttributes<T> & Extra
+) => React.HTMLAttributes<T> & Extra;
+
+export interface UseInputFieldReturn {
+  /** Current value, whether local, controlled or kept in a Form */
+  value: string;
+  /** Number of user-perceived characters in the value */
+  characterCount: number;
+  /** Whether the error message should be shown */
+  hasError: boolean;
+  /** Message to show while `hasError` is set */
+  error: string | undefined;
+  /** Current status; `'error'` whenever `hasError` is set */
+  status: FieldStatus | undefined;
+  /** Message of the current status, including the error message */
+  statusMessage: string | undefined;
+  /** Whether the input is required by its prop or its rules */
+  isRequired: boolean;
+  isDisabled: boolean;
+  isReadOnly: boolean;
+  /** Whether the field is loading; the input is disabled meanwhile */
+  isLoading: boolean;
+  isPassword: boolean;
+  /** Whether the password is currently shown as plain text */
+  showPassword: boolean;
+  /** Whether an async check is running */
+  isValidating: boolean;
+  /** Whether the loading or validating spinner should be shown */
+  showSpinner: boolean;
+  /** Whether the clear button should be shown */
+  showClear: boolean;
+  /** Whether the password toggle should be shown */
+  showToggle: boolean;
+  /** Whether the copy button should be shown */
+  showCopy: boolean;
+  copyStatus: CopyStatus;
+  /** Whether Caps Lock is on while typing a password */
+  capsLockOn: boolean;
+  /** Password policy result, when a policy applies */
+  policyResult: PasswordPolicyResult | undefined;
+  ids: InputFieldIds;
+  messages: Messages;
+  /** Empties the input the way the clear button does */
+  clear: () => void;
+  togglePassword: () => void;
+  /** Copies the value, including a hidden password, to the clipboard */
+  copy: () => Promise<void>;
+  getLabelProps: PropGetter<HTMLLabelElement, { htmlFor?: string }>;
+  getInputProps: (
+    overrides?: React.InputHTMLAttributes<HTMLInputElement>
+  ) => React.InputHTMLAttributes<HTMLInputElement> & { ref: React.RefObject<HTMLInputElement> };
+  getClearButtonProps: PropGetter<HTMLButtonElement, React.ButtonHTMLAttributes<HTMLButtonElement>>;
+  getToggleProps: PropGetter<HTMLButtonElement, React.ButtonHTMLAttributes<HTMLButtonElement>>;
+  getCopyButtonProps: PropGetter<HTMLButtonElement, React.ButtonHTMLAttributes<HTMLButtonElement>>;
+  getHelperProps: PropGetter<HTMLElement>;
+  getErrorProps: PropGetter<HTMLElement>;
+  /** Props of the status message: an alert for errors, a polite status otherwise */
+  getStatusProps: PropGetter<HTMLElement>;
+}
+
+/** Result of the last copy, shown until `COPY_STATUS_DURATION` passes */
+export type CopyStatus = 'idle' | 'copied' | 'failed';
+
+const COPY_STATUS_DURATION = 2000;
+
+/** Calls the hook's handler, then the one passed to the prop getter */
+const callAll =
+  <E>(...handlers: (((event: E) => void) | undefined)[]) =>
+  (event: E) =>
+    handlers.forEach((handler) => handler?.(event));
+
+/**
+ * Behaviour of an InputField without its markup: value state, validation,
+ * masks, password toggle, clear, IDs and ARIA wiring. Spread the prop getters
+ * onto your own elements; `ref` is forwarded to the input.
+ */
+export function useInputField(
+  {
+    helperText,
+    errorMessage,
+    invalid = false,
+    status: statusProp,
+    warningMessage,
+    successMessage,
+    infoMessage,
+    loading = false,
+    clearable = false,
+    showPasswordToggle = false,
+    onClear,
+    clearOnEscape = false,
+    copyable = false,
+    excludeFromDraft = false,
+    disabled = false,
+    readOnly = false,
+    type = 'text',
+    required = false,
+    rules,
+    validateOn = 'blur',
+    asyncValidate,
+    asyncDebounce = 300,
+    validating = false,
+    mask,
+    onMaskedChange,
+    onValueChange,
+    value: valueProp,
+    defaultValue,
+    onChange,
+    onBlur,
+    onInvalid,
+    onKeyDown,
+    onKeyUp,
+    passwordPolicy,
+    onPasswordPolicyChange,
+    id,
+    idPrefix = 'input',
+    showCount = false,
+    maxLength,
+    messages: messageOverrides,
+    'aria-describedby': ariaDescribedBy,
+    ...inputAttributes
+  }: UseInputFieldProps,
+  ref?: React.Ref<HTMLInputElement>
+): UseInputFieldReturn {
+  const messages = useMessages(messageOverrides);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const reactId = useId();
+  useImperativeHandle(ref, () => inputRef.current as HTMLInputElement);
+
+  const [showPassword, setShowPassword] = useState(false);
+  // Like a native input, the default only applies on mount and reset
+  const [initialValue] = useState(() => {
+    const initial = String(defaultValue ?? '');
+    return mask ? formatMasked(extractRaw(initial, mask), mask).masked : initial;
+  });
+  const [localValue, setLocalValue] = useState(initialValue);
+  const [showRuleError, setShowRuleError] = useState(false);
+  const pendingReason = useRef<ValueChangeReason | null>(null);
+
+  // Controlled when `value` is passed, like React's own inputs
+  const isControlled = valueProp !== undefined;
+  const wasControlled = useRef(isControlled);
+  useEffect(() => {
+    if (import.meta.env.DEV && wasControlled.current !== isControlled) {
+      const from = wasControlled.current ? 'controlled' : 'uncontrolled';
+      const to = isControlled ? 'controlled' : 'uncontrolled';
+      console.error(
+        `InputField is changing from ${from} to ${to}. Decide between using a controlled or ` +
+          'uncontrolled InputField for the lifetime of the component.'
+      );
+    }
+    wasControlled.current = isControlled;
+  }, [isControlled]);
+
+  // Inside a Form, a named field keeps its value and error in the form store
+  const form = useFormContext();
+  const fieldName = form ? inputAttributes.name : undefined;
+  const field = useFormField(form, fieldName);
+
+  const isPassword = type === 'password';
+  const inputType = isPassword && showPassword ? 'text' : type;
+
+  // Rule validation; form fields always validate so native constraints block submit
+  const policy = isPassword ? passwordPolicy : undefined;
+  const effectiveRules = useMemo(() => {
+    if (!rules && !fieldName && !policy) return undefined;
+    const resolved = resolveRules(rules ?? {}, { required, type });
+    return policy ? withPasswordPolicy(resolved, policy, messages) : resolved;
+  }, [rules, fieldName, policy, required, type, messages]);
+  // A controlled value wins over the form store, which follows it below
+  const value = isControlled ? String(valueProp) : field ? field.value : localValue;
+  const localRuleError = useMemo(
+    () => (effectiveRules && !field ? validateValue(String(value), effectiveRules, {}, messages) : undefined),
+    [effectiveRules, field, value, messages]
+  );
+  const syncRuleError = field ? field.error : localRuleError;
+
+  // Remote checks only run once the value passes the synchronous rules
+  const asyncState = useAsyncValidation(String(value), asyncValidate, {
+    delay: asyncDebounce,
+    skip: !!syncRuleError,
+    invalidMessage: messages.invalid,
+  });
+  const ruleError = syncRuleError ?? asyncState.error;
+  const isValidating = validating || asyncState.validating;
+  const showSpinner = loading || isValidating;
+
+  // The store reads the latest rules and messages through refs so inline `rules` objects don't re-register
+  const rulesRef = useRef(effectiveRules);
+  rulesRef.current = effectiveRules;
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  const isExcludedFromDraft = excludeFromDraft || isPassword;
+
+  useEffect(() => {
+    if (!form || !fieldName) return;
+    return form.register(fieldName, {
+      defaultValue: isControlled ? String(valueProp) : initialValue,
+      validate: (fieldValue, values) =>
+        rulesRef.current ? validateValue(fieldValue, rulesRef.current, values, messagesRef.current) : undefined,
+      getElement: () => inputRef.current,
+      excludeFromDraft: isExcludedFromDraft,
+    });
+    // The default value only applies on registration
+  }, [form, fieldName]);
+
+  // Later rule and draft changes update the registration; registering again would drop the value
+  useEffect(() => {
+    if (form && fieldName) form.updateRegistration(fieldName, { excludeFromDraft: isExcludedFromDraft });
+  }, [form, fieldName, isExcludedFromDraft, effectiveRules]);
+
+  // A controlled field's store value follows the `value` prop
+  useEffect(() => {
+    if (form && fieldName && isControlled) form.setValue(fieldName, String(valueProp));
+  }, [form, fieldName, isControlled, valueProp]);
+
+  const setValue = useCallback((next: string) => {
+    if (isControlled) return;
+    if (form && fieldName) {
+      form.setValue(fieldName, next);
+    } else {
+      setLocalValue(next);
+    }
+  }, [form, fieldName, isControlled]);
+
+  // A native form reset restores the default value
+  useEffect(() => {
+    const formElement = inputRef.current?.form;
+    if (!formElement) return;
+    const handleReset = () => {
+      if (!fieldName && !isControlled) setLocalValue(initialValue);
+      setShowRuleError(false);
+      onValueChange?.(initialValue, 'reset');
+    };
+    formElement.addEventListener('reset', handleReset);
+    return () => formElement.removeEventListener('reset', handleReset);
+  }, [fieldName, isControlled, initialValue, onValueChange]);
+
+  // Keep the native validity in sync so form submission and :invalid agree with the rules
+  useEffect(() => {
+    inputRef.current?.setCustomValidity(ruleError ?? '');
+  }, [ruleError]);
+
+  const isRequired = required || !!effectiveRules?.required;
+  const visibleRuleError = showRuleError ? ruleError : undefined;
+  const hasError = invalid || statusProp === 'error' || !!errorMessage || !!visibleRuleError;
+  const error = hasError ? errorMessage || visibleRuleError || messages.invalid : undefined;
+
+  // An error always wins; otherwise the explicit status, or the one whose message is set
+  const status: FieldStatus | undefined = hasError
+    ? 'error'
+    : statusProp ?? (warningMessage ? 'warning' : successMessage ? 'success' : infoMessage ? 'info' : undefined);
+  const statusMessage = status && { error, warning: warningMessage, success: successMessage, info: infoMessage }[status];
+
+  const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const inputType = (e.nativeEvent as InputEvent).inputType;
+    const reason = pendingReason.current ?? (inputType === 'insertFromPaste' ? 'paste' : 'input');
+    pendingReason.current = null;
+
+    if (mask) {
+      const input = e.target;
+      const { masked, unmasked, caret } = conformToMask(
+        input.value,
+        input.selectionStart ?? input.value.length,
+        mask,
+        String(value),
+        inputType
+      );
+      // Write the masked value straight to the DOM so React's re-render doesn't move the caret
+      input.value = masked;
+      if (input.selectionStart !== null && document.activeElement === input) {
+        input.setSelectionRange(caret, caret);
+      }
+      onMaskedChange?.(masked, unmasked);
+    }
+    if (showCount && maxLength !== undefined) {
+      // The native maxLength counts UTF-16 units, so an emoji would use up two characters
+      const input = e.target;
+      const truncated = truncateGraphemes(input.value, maxLength);
+      if (truncated !== input.value) {
+        input.value = truncated;
+        if (input.selectionStart !== null) input.setSelectionRange(truncated.length, truncated.length);
+      }
+    }
+    setValue(e.target.value);
+    if (validateOn === 'change') setShowRuleError(true);
+    onChange?.(e);
+    onValueChange?.(e.target.value, reason);
+  }, [mask, value, setValue, onMaskedChange, onChange, onValueChange, validateOn, showCount, maxLength]);
+
+  // Caps Lock warning for password inputs
+  const [capsLockOn, setCapsLockOn] = useState(false);
+
+  const handleBlur = useCallback((e: React.FocusEvent<HTMLInputElement>) => {
+    if (validateOn === 'blur') setShowRuleError(true);
+    if (form && fieldName) form.setTouched(fieldName);
+    setCapsLockOn(false);
+    onBlur?.(e);
+  }, [form, fieldName, onBlur, validateOn]);
+
+  const handleKeyUp = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (isPassword) setCapsLockOn(e.getModifierState('CapsLock'));
+    onKeyUp?.(e);
+  }, [isPassword, onKeyUp]);
+
+  // Password policy
+  const policyResult = useMemo(
+    () => (policy ? evaluatePassword(String(value), policy, messages) : undefined),
+    [policy, value, messages]
+  );
+
+  useEffect(() => {
+    if (policyResult) onPasswordPolicyChange?.(policyResult);
+    // Only report when the result itself changes
+  }, [policyResult]);
+
+  // Fired by the browser when the enclosing form is submitted with an invalid value
+  const handleInvalid = useCallback((e: React.FormEvent<HTMLInputElement>) => {
+    if (effectiveRules || asyncValidate) {
+      // Show our own message instead of the browser bubble
+      e.preventDefault();
+      setShowRuleError(true);
+    }
+    onInvalid?.(e);
+  }, [effectiveRules, asyncValidate, onInvalid]);
+
+  const clear = useCallback(() => {
+    const input = inputRef.current;
+    if (!input) return;
+    // Dispatch a real input event; React routes it through handleInputChange
+    pendingReason.current = 'clear';
+    dispatchNativeInput(input, '');
+    input.focus();
+    onClear?.();
+  }, [onClear]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (isPassword) setCapsLockOn(e.getModifierState('CapsLock'));
+    onKeyDown?.(e);
+    if (clearOnEscape && e.key === 'Escape' && !e.defaultPrevented && value && !disabled && !readOnly) {
+      e.preventDefault();
+      clear();
+    }
+  }, [isPassword, onKeyDown, clearOnEscape, value, disabled, readOnly, clear]);
+
+  const togglePassword = useCallback(() => {
+    setShowPassword(!showPassword);
+  }, [showPassword]);
+
+  // The value is copied as stored, so a hidden password never has to be revealed first
+  const [copyStatus, setCopyStatus] = useState<CopyStatus>('idle');
+  const copyTimer = useRef<ReturnType<typeof setTimeout>>();
+  useEffect(() => () => clearTimeout(copyTimer.current), []);
+
+  const copy = useCallback(async () => {
+    const copied = await copyToClipboard(String(value));
+    setCopyStatus(copied ? 'copied' : 'failed');
+    clearTimeout(copyTimer.current);
+    copyTimer.current = setTimeout(() => setCopyStatus('idle'), COPY_STATUS_DURATION);
+  }, [value]);
+
+  // A read-only value can't be cleared, only copied
+  const showClear = clearable && !!value && !showSpinner && !readOnly;
+  const showToggle = isPassword && showPasswordToggle && !showSpinner;
+  const showCopy = copyable && !!value && !showSpinner;
+
+  // Stable across re-renders and identical on server and client
+  const inputId = id || `${idPrefix}-${reactId.replace(/:/g, '')}`;
+  const ids: InputFieldIds = {
+    input: inputId,
+    helper: `${inputId}-helper`,
+    error: `${inputId}-error`,
+    status: `${inputId}-status`,
+    policy: `${inputId}-policy`,
+    capsLock: `${inputId}-caps-lock`,
+    counter: `${inputId}-counter`,
+  };
+
+  // The status message comes first so an error is heard before the helper text.
+  // Duplicates are dropped, e.g. when a description part registers the helper ID again
+  const describedBy = Array.from(
+    new Set(
+      [
+        statusMessage && (hasError ? ids.error : ids.status),
+        helperText && ids.helper,
+        policyResult && ids.policy,
+        capsLockOn && ids.capsLock,
+        showCount && ids.counter,
+        ...(ariaDescribedBy?.split(/\s+/) ?? []),
+      ].filter((describedById): describedById is string => !!describedById)
+    )
+  );
+
+  return {
+    value,
+    characterCount: countGraphemes(String(value)),
+    hasError,
+    error,
+    status,
+    statusMessage,
+    isRequired,
+    isDisabled: disabled,
+    isReadOnly: readOnly,
+    isLoading: loading,
+    isPassword,
+    showPassword,
+    isValidating,
+    showSpinner,
+    showClear,
+    showToggle,
+    showCopy,
+    copyStatus,
+    capsLockOn,
+    policyResult,
+    ids,
+    messages,
+    clear,
+    togglePassword,
+    copy,
+
+    getLabelProps: (overrides = {}) => ({ htmlFor: ids.input, ...overrides }),
+
+    getInputProps: (overrides = {}) => ({
+      id: ids.input,
+      type: inputType,
+      value,
+      inputMode: mask && typeof mask === 'string' && /^[^a*]*$/.test(mask) ? 'numeric' : undefined,
+      disabled: disabled || loading,
+      readOnly,
+      required: isRequired,
+      maxLength: showCount ? undefined : maxLength,
+      'aria-describedby': describedBy.join(' ') || undefined,
+      'aria-invalid': hasError,
+      'aria-required': isRequired,
+      'aria-busy': isValidating || undefined,
+      ...inputAttributes,
+      ...overrides,
+      ref: inputRef,
+      onChange: callAll(handleInputChange, overrides.onChange),
+      onBlur: callAll(handleBlur, overrides.onBlur),
+      onInvalid: callAll(handleInvalid, overrides.onInvalid),
+      onKeyDown: callAll(handleKeyDown, overrides.onKeyDown),
+      onKeyUp: callAll(handleKeyUp, overrides.onKeyUp),
+    }),
+
+    getClearButtonProps: (overrides = {}) => ({
+      type: 'button',
+      disabled,
+      'aria-label': messages.clearInput,
+      ...overrides,
+      onClick: callAll(() => clear(), overrides.onClick),
+    }),
+
+    getToggleProps: (overrides = {}) => ({
+      type: 'button',
+      disabled,
+      'aria-label': showPassword ? messages.hidePassword : messages.showPassword,
+      ...overrides,
+      onClick: callAll(() => togglePassword(), overrides.onClick),
+    }),
+
+    getCopyButtonProps: (overrides = {}) => ({
+      type: 'button',
+      disabled,
+      'aria-label': messages.copyToClipboard,
+      ...overrides,
+      onClick: callAll(() => void copy(), overrides.onClick),
+    }),
+
+    getHelperProps: (overrides = {}) => ({ id: ids.helper, ...overrides }),
+
+    getErrorProps: (overrides = {}) => ({ id: ids.error, role: 'alert', ...overrides }),
+
+    getStatusProps: (overrides = {}) =>
+      hasError
+        ? { id: ids.error, role: 'alert', ...overrides }
+        : { id: ids.status, role: 'status', 'aria-live': 'polite', ...overrides },
+  };
+}
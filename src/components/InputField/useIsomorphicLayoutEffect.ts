@@ -0,0 +1,4 @@
+import { useEffect, useLayoutEffect } from 'react';
+
+/** useLayoutEffect in the browser, useEffect during server rendering where layout effects warn */
+export const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? useLayoutEffect : useEffect;
@@ -0,0 +1,12 @@
+import { useRef } from 'react';
+
+/**
+ * Ref to the value of the latest render. Effects read props such as storage
+ * adapters through it instead of listing them as dependencies: an inline
+ * adapter object is new on every render and would re-run the effect each time.
+ */
+export function useLatestRef<T>(value: T) {
+  const ref = useRef(value);
+  ref.current = value;
+  return ref;
+}
@@ -0,0 +1,23 @@
+import { RefObject, useState } from 'react';
+import { useIsomorphicLayoutEffect } from './useIsomorphicLayoutEffect';
+
+/**
+ * Top offset that places a popover right under the input rather than under
+ * the helper text, relative to the positioned wrapper. Measured while open.
+ */
+export function usePopoverTop(
+  open: boolean,
+  inputRef: RefObject<HTMLElement>,
+  wrapperRef: RefObject<HTMLElement>
+): number | undefined {
+  const [popoverTop, setPopoverTop] = useState<number>();
+
+  useIsomorphicLayoutEffect(() => {
+    if (!open || !inputRef.current || !wrapperRef.current) return;
+    const inputRect = inputRef.current.getBoundingClientRect();
+    const wrapperRect = wrapperRef.current.getBoundingClientRect();
+    setPopoverTop(inputRect.bottom - wrapperRect.top + 4);
+  }, [open, inputRef, wrapperRef]);
+
+  return popoverTop;
+}
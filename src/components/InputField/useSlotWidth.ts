@@ -0,0 +1,28 @@
+import { useState } from 'react';
+import { useIsomorphicLayoutEffect } from './useIsomorphicLayoutEffect';
+
+/**
+ * Measures the rendered width of a slot element and keeps it current as its
+ * content changes. Attach the returned callback as the slot's `ref`; the width
+ * is `undefined` while the slot is not rendered.
+ */
+export function useSlotWidth(): [(element: HTMLElement | null) => void, number | undefined] {
+  const [element, setElement] = useState<HTMLElement | null>(null);
+  const [width, setWidth] = useState<number>();
+
+  useIsomorphicLayoutEffect(() => {
+    if (!element) {
+      setWidth(undefined);
+      return;
+    }
+
+    setWidth(element.offsetWidth);
+    if (typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(() => setWidth(element.offsetWidth));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element]);
+
+  return [setElement, width];
+}
@@ -0,0 +1,123 @@
+import { en, Messages } from '../Locale/messages';
+
+/** A rule value that is either the bare constraint or the constraint with a custom message */
+export type RuleWithMessage<T> = T | { value: T; message: string };
+
+export interface ValidationRules {
+  /** Value must not be empty. Pass a string to override the message */
+  required?: boolean | string;
+  /** Minimum number of characters */
+  minLength?: RuleWithMessage<number>;
+  /** Maximum number of characters */
+  maxLength?: RuleWithMessage<number>;
+  /** Regular expression the whole value must match */
+  pattern?: RuleWithMessage<RegExp>;
+  /** Value must be an email address. Pass a string to override the message */
+  email?: boolean | string;
+  /** Value must be an absolute http(s) URL. Pass a string to override the message */
+  url?: boolean | string;
+  /**
+   * Custom predicate. Return `true`/`undefined` when valid, `false` to use the
+   * default message, or a string to use as the error message. Inside a `Form`,
+   * `values` holds every registered field so rules can compare fields.
+   */
+  validate?: (value: string, values: Record<string, string>) => boolean | string | undefined;
+}
+
+/** When rule errors become visible to the user */
+export type ValidateOn = 'change' | 'blur' | 'submit';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const unwrap = <T>(rule: RuleWithMessage<T>): { value: T; message?: string } =>
+  typeof rule === 'object' && rule !== null && 'value' in rule
+    ? rule
+    : { value: rule as T };
+
+const messageOf = (rule: boolean | string, fallback: string) =>
+  typeof rule === 'string' ? rule : fallback;
+
+const isUrl = (value: string) => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Runs the rules against a value and returns the first error message, or
+ * `undefined` when the value passes. Only `required` applies to empty values.
+ * Rules without their own message use `messages`, English by default.
+ */
+export function validateValue(
+  value: string,
+  rules: ValidationRules,
+  values: Record<string, string> = {},
+  messages: Messages = en
+): string | undefined {
+  if (value === '') {
+    return rules.required ? messageOf(rules.required, messages.required) : undefined;
+  }
+
+  if (rules.minLength !== undefined) {
+    const { value: min, message } = unwrap(rules.minLength);
+    if (value.length < min) return message ?? messages.minLength(min);
+  }
+
+  if (rules.maxLength !== undefined) {
+    const { value: max, message } = unwrap(rules.maxLength);
+    if (value.length > max) return message ?? messages.maxLength(max);
+  }
+
+  if (rules.pattern !== undefined) {
+    const { value: pattern, message } = unwrap(rules.pattern);
+    // Match the whole value like the native `pattern` attribute does
+    const anchored = new RegExp(`^(?:${pattern.source})$`, pattern.flags.replace('g', ''));
+    if (!anchored.test(value)) return message ?? messages.patternMismatch;
+  }
+
+  if (rules.email && !EMAIL_PATTERN.test(value)) {
+    return messageOf(rules.email, messages.invalidEmail);
+  }
+
+  if (rules.url && !isUrl(value)) {
+    return messageOf(rules.url, messages.invalidUrl);
+  }
+
+  if (rules.validate) {
+    return toErrorMessage(rules.validate(value, values), messages.invalid);
+  }
+
+  return undefined;
+}
+
+/**
+ * Converts a predicate result (`true`/`undefined` = valid, `false` or a message = invalid)
+ * into an error message; `false` becomes `invalidMessage`
+ */
+export function toErrorMessage(
+  result: boolean | string | undefined,
+  invalidMessage: string = en.invalid
+): string | undefined {
+  if (result === false) return invalidMessage;
+  if (typeof result === 'string') return result;
+  return undefined;
+}
+
+/**
+ * Merges the native constraint attributes of an input into its rules so the
+ * rule messages and the browser's own validity checks never disagree.
+ */
+export function resolveRules(
+  rules: ValidationRules,
+  native: { required?: boolean; type?: string }
+): ValidationRules {
+  return {
+    required: native.required || undefined,
+    email: native.type === 'email' || undefined,
+    url: native.type === 'url' || undefined,
+    ...rules,
+  };
+}
@@ -0,0 +1,40 @@
+/** A string store such as `localStorage`, with reads and writes that never throw */
+export interface WebStorageAdapter {
+  get: (key: string) => string | null;
+  set: (key: string, value: string) => void;
+  remove: (key: string) => void;
+}
+
+/**
+ * Wraps a Web Storage area; reads and writes fail silently, e.g. in private
+ * browsing or when full. The area is looked up on each call, so the adapter
+ * can be created during server rendering.
+ */
+export function webStorageAdapter(getStorage: () => Storage): WebStorageAdapter {
+  return {
+    get: (key) => {
+      try {
+        return getStorage().getItem(key);
+      } catch {
+        return null;
+      }
+    },
+    set: (key, value) => {
+      try {
+        getStorage().setItem(key, value);
+      } catch {
+        // Storage full or unavailable; the value just isn't kept
+      }
+    },
+    remove: (key) => {
+      try {
+        getStorage().removeItem(key);
+      } catch {
+        // Nothing to remove
+      }
+    },
+  };
+}
+
+export const localStorageAdapter = webStorageAdapter(() => window.localStorage);
+export const sessionStorageAdapter = webStorageAdapter(() => window.sessionStorage);
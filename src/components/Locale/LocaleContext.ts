@@ -0,0 +1,18 @@
+import { createContext, useContext, useMemo } from 'react';
+import { en, Messages } from './messages';
+
+export interface LocaleContextValue {
+  /** BCP 47 locale; undefined means the browser's */
+  locale?: string;
+  messages: Messages;
+}
+
+export const LocaleContext = createContext<LocaleContextValue>({ messages: en });
+
+export const useLocale = () => useContext(LocaleContext);
+
+/** Messages of the nearest LocaleProvider with per-instance overrides applied */
+export function useMessages(overrides?: Partial<Messages>): Messages {
+  const { messages } = useContext(LocaleContext);
+  return useMemo(() => (overrides ? { ...messages, ...overrides } : messages), [messages, overrides]);
+}
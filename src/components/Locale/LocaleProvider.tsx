@@ -0,0 +1,25 @@
+import React, { useMemo } from 'react';
+import { catalogFor, Messages } from './messages';
+import { LocaleContext } from './LocaleContext';
+
+export interface LocaleProviderProps {
+  /** BCP 47 locale, e.g. `ar-EG`; picks the built-in catalog and the number format */
+  locale: string;
+  /** Overrides on top of the catalog, or a complete catalog for a language that isn't built in */
+  messages?: Partial<Messages>;
+  children: React.ReactNode;
+}
+
+/**
+ * Provides the locale and translated strings to every field inside it. The
+ * writing direction comes from the `dir` attribute of the page or a wrapper,
+ * not from this provider.
+ */
+export function LocaleProvider({ locale, messages, children }: LocaleProviderProps) {
+  const value = useMemo(
+    () => ({ locale, messages: { ...catalogFor(locale), ...messages } }),
+    [locale, messages]
+  );
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
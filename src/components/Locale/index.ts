@@ -0,0 +1,5 @@
+export { LocaleProvider } from './LocaleProvider';
+export type { LocaleProviderProps } from './LocaleProvider';
+export { useLocale, useMessages } from './LocaleContext';
+export { ar, catalogFor, catalogs, directionOf, en, he } from './messages';
+export type { Messages } from './messages';
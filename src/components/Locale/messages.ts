@@ -0,0 +1,320 @@
+import type { PasswordStrength } from '../InputField/passwordPolicy';
+import type { FieldStatus } from '../InputField/styles';
+
+/** Every built-in string the fields render or announce */
+export interface Messages {
+  /** Fallback error when a field is invalid without a message */
+  invalid: string;
+  /** Default messages of the validation rules */
+  required: string;
+  minLength: (min: number) => string;
+  maxLength: (max: number) => string;
+  patternMismatch: string;
+  invalidEmail: string;
+  invalidUrl: string;
+  /** Default messages of the schema form's `enum` and number checks */
+  invalidOption: string;
+  invalidNumber: string;
+  invalidInteger: string;
+  numberBelowMin: (min: number) => string;
+  numberAboveMax: (max: number) => string;
+  numberNotAbove: (min: number) => string;
+  numberNotBelow: (max: number) => string;
+  numberNotMultipleOf: (step: number) => string;
+  clearInput: string;
+  showPassword: string;
+  hidePassword: string;
+  /** Screen reader text while an async check runs */
+  validating: string;
+  capsLockOn: string;
+  /** Screen reader text of the character counter */
+  characterCount: (count: number, max?: number) => string;
+  charactersRemaining: (remaining: number) => string;
+  characterLimitReached: string;
+  /** Caption of the strength bar before anything is typed */
+  passwordStrength: string;
+  strengthLabels: Record<PasswordStrength, string>;
+  requirementMet: string;
+  requirementNotMet: string;
+  /** Checklist labels of the password policy requirements */
+  passwordRequirements: {
+    minLength: (min: number) => string;
+    lowercase: string;
+    uppercase: string;
+    digit: string;
+    symbol: string;
+    bannedWords: string;
+    entropy: string;
+  };
+  /** Error of a password that misses a requirement; receives its checklist label */
+  passwordNeeds: (requirement: string) => string;
+  removeTag: (tag: string) => string;
+  clearAllTags: string;
+  /** Screen reader suffix of tags that fail `validateTag` */
+  invalidTag: string;
+  /** Shown once `maxTags` is reached and the input stops taking tags */
+  maxTagsReached: (max: number) => string;
+  showOptions: string;
+  hideOptions: string;
+  loadingOptions: string;
+  noResults: string;
+  increase: string;
+  decrease: string;
+  /** Label of each one-time code box */
+  codeCharacter: (position: number, length: number) => string;
+  /** Segment names used in the date placeholder, e.g. DD/MM/YYYY */
+  dateSegments: { day: string; month: string; year: string; hour: string; minute: string };
+  showCalendar: string;
+  hideCalendar: string;
+  /** Label of the calendar popover */
+  chooseDate: string;
+  previousMonth: string;
+  nextMonth: string;
+  invalidDate: string;
+  /** Receives the limit formatted in the locale */
+  dateBeforeMin: (min: string) => string;
+  dateAfterMax: (max: string) => string;
+  dateUnavailable: string;
+  rangeEndBeforeStart: string;
+  recentSearches: string;
+  clearRecentSearches: string;
+  copyToClipboard: string;
+  /** Announced after the copy button was used */
+  copied: string;
+  copyFailed: string;
+  /** Screen reader name of the status icon when no status message is shown */
+  statusLabels: Record<FieldStatus, string>;
+  /** Restore prompt of a form draft; receives the save time formatted in the locale */
+  draftFound: (savedAt: string) => string;
+  restoreDraft: string;
+  discardDraft: string;
+}
+
+export const en: Messages = {
+  invalid: 'This field is invalid',
+  required: 'This field is required',
+  minLength: (min) => `Must be at least ${min} characters`,
+  maxLength: (max) => `Must be at most ${max} characters`,
+  patternMismatch: 'Invalid format',
+  invalidEmail: 'Please enter a valid email address',
+  invalidUrl: 'Please enter a valid URL',
+  invalidOption: 'Please choose one of the options',
+  invalidNumber: 'Please enter a number',
+  invalidInteger: 'Please enter a whole number',
+  numberBelowMin: (min) => `Must be at least ${min}`,
+  numberAboveMax: (max) => `Must be at most ${max}`,
+  numberNotAbove: (min) => `Must be greater than ${min}`,
+  numberNotBelow: (max) => `Must be less than ${max}`,
+  numberNotMultipleOf: (step) => `Must be a multiple of ${step}`,
+  clearInput: 'Clear input',
+  showPassword: 'Show password',
+  hidePassword: 'Hide password',
+  validating: 'Validating',
+  capsLockOn: 'Caps Lock is on',
+  characterCount: (count, max) =>
+    max !== undefined ? `${count} of ${max} characters` : `${count} ${count === 1 ? 'character' : 'characters'}`,
+  charactersRemaining: (remaining) => `${remaining} ${remaining === 1 ? 'character' : 'characters'} remaining`,
+  characterLimitReached: 'Character limit reached',
+  passwordStrength: 'Strength',
+  strengthLabels: { 0: 'Very weak', 1: 'Weak', 2: 'Fair', 3: 'Strong', 4: 'Very strong' },
+  requirementMet: 'Requirement met',
+  requirementNotMet: 'Requirement not met',
+  passwordRequirements: {
+    minLength: (min) => `At least ${min} characters`,
+    lowercase: 'A lowercase letter',
+    uppercase: 'An uppercase letter',
+    digit: 'A number',
+    symbol: 'A symbol',
+    bannedWords: 'No common words',
+    entropy: 'Hard to guess',
+  },
+  passwordNeeds: (requirement) => `Password needs: ${requirement.toLowerCase()}`,
+  removeTag: (tag) => `Remove ${tag}`,
+  clearAllTags: 'Clear all tags',
+  invalidTag: 'invalid',
+  maxTagsReached: (max) => `Maximum of ${max} tags reached`,
+  showOptions: 'Show options',
+  hideOptions: 'Hide options',
+  loadingOptions: 'Loading…',
+  noResults: 'No results',
+  increase: 'Increase',
+  decrease: 'Decrease',
+  codeCharacter: (position, length) => `Character ${position} of ${length}`,
+  dateSegments: { day: 'DD', month: 'MM', year: 'YYYY', hour: 'hh', minute: 'mm' },
+  showCalendar: 'Show calendar',
+  hideCalendar: 'Hide calendar',
+  chooseDate: 'Choose date',
+  previousMonth: 'Previous month',
+  nextMonth: 'Next month',
+  invalidDate: 'Enter a valid date',
+  dateBeforeMin: (min) => `Choose a date on or after ${min}`,
+  dateAfterMax: (max) => `Choose a date on or before ${max}`,
+  dateUnavailable: 'This date is not available',
+  rangeEndBeforeStart: 'The end date must not be before the start date',
+  recentSearches: 'Recent searches',
+  clearRecentSearches: 'Clear recent searches',
+  copyToClipboard: 'Copy to clipboard',
+  copied: 'Copied',
+  copyFailed: 'Couldn’t copy',
+  statusLabels: { error: 'Error', warning: 'Warning', success: 'Success', info: 'Information' },
+  draftFound: (savedAt) => `You have unsaved changes from ${savedAt}.`,
+  restoreDraft: 'Restore',
+  discardDraft: 'Discard',
+};
+
+export const ar: Messages = {
+  invalid: 'هذا الحقل غير صالح',
+  required: 'هذا الحقل مطلوب',
+  minLength: (min) => `الحد الأدنى ${min} أحرف`,
+  maxLength: (max) => `الحد الأقصى ${max} أحرف`,
+  patternMismatch: 'التنسيق غير صالح',
+  invalidEmail: 'أدخل عنوان بريد إلكتروني صالحًا',
+  invalidUrl: 'أدخل عنوان URL صالحًا',
+  invalidOption: 'اختر أحد الخيارات',
+  invalidNumber: 'أدخل رقمًا',
+  invalidInteger: 'أدخل عددًا صحيحًا',
+  numberBelowMin: (min) => `يجب ألا تقل القيمة عن ${min}`,
+  numberAboveMax: (max) => `يجب ألا تزيد القيمة عن ${max}`,
+  numberNotAbove: (min) => `يجب أن تكون القيمة أكبر من ${min}`,
+  numberNotBelow: (max) => `يجب أن تكون القيمة أقل من ${max}`,
+  numberNotMultipleOf: (step) => `يجب أن تكون القيمة من مضاعفات ${step}`,
+  clearInput: 'مسح الإدخال',
+  showPassword: 'إظهار كلمة المرور',
+  hidePassword: 'إخفاء كلمة المرور',
+  validating: 'جارٍ التحقق',
+  capsLockOn: 'مفتاح Caps Lock مفعّل',
+  characterCount: (count, max) => (max !== undefined ? `عدد الأحرف: ${count} من ${max}` : `عدد الأحرف: ${count}`),
+  charactersRemaining: (remaining) => `الأحرف المتبقية: ${remaining}`,
+  characterLimitReached: 'تم الوصول إلى الحد الأقصى للأحرف',
+  passwordStrength: 'القوة',
+  strengthLabels: { 0: 'ضعيفة جدًا', 1: 'ضعيفة', 2: 'متوسطة', 3: 'قوية', 4: 'قوية جدًا' },
+  requirementMet: 'الشرط مستوفى',
+  requirementNotMet: 'الشرط غير مستوفى',
+  passwordRequirements: {
+    minLength: (min) => `${min} أحرف على الأقل`,
+    lowercase: 'حرف لاتيني صغير',
+    uppercase: 'حرف لاتيني كبير',
+    digit: 'رقم',
+    symbol: 'رمز',
+    bannedWords: 'بدون كلمات شائعة',
+    entropy: 'صعبة التخمين',
+  },
+  passwordNeeds: (requirement) => `شرط كلمة المرور: ${requirement}`,
+  removeTag: (tag) => `إزالة ${tag}`,
+  clearAllTags: 'مسح كل الوسوم',
+  invalidTag: 'غير صالح',
+  maxTagsReached: (max) => `تم الوصول إلى الحد الأقصى للوسوم: ${max}`,
+  showOptions: 'إظهار الخيارات',
+  hideOptions: 'إخفاء الخيارات',
+  loadingOptions: 'جارٍ التحميل…',
+  noResults: 'لا توجد نتائج',
+  increase: 'زيادة',
+  decrease: 'إنقاص',
+  codeCharacter: (position, length) => `الحرف ${position} من ${length}`,
+  dateSegments: { day: 'يوم', month: 'شهر', year: 'سنة', hour: 'س', minute: 'د' },
+  showCalendar: 'إظهار التقويم',
+  hideCalendar: 'إخفاء التقويم',
+  chooseDate: 'اختر التاريخ',
+  previousMonth: 'الشهر السابق',
+  nextMonth: 'الشهر التالي',
+  invalidDate: 'أدخل تاريخًا صالحًا',
+  dateBeforeMin: (min) => `اختر تاريخًا في ${min} أو بعده`,
+  dateAfterMax: (max) => `اختر تاريخًا في ${max} أو قبله`,
+  dateUnavailable: 'هذا التاريخ غير متاح',
+  rangeEndBeforeStart: 'يجب ألا يسبق تاريخ الانتهاء تاريخ البدء',
+  recentSearches: 'عمليات البحث الأخيرة',
+  clearRecentSearches: 'مسح عمليات البحث الأخيرة',
+  copyToClipboard: 'نسخ إلى الحافظة',
+  copied: 'تم النسخ',
+  copyFailed: 'تعذّر النسخ',
+  statusLabels: { error: 'خطأ', warning: 'تحذير', success: 'نجاح', info: 'معلومات' },
+  draftFound: (savedAt) => `لديك تغييرات غير محفوظة من ${savedAt}.`,
+  restoreDraft: 'استعادة',
+  discardDraft: 'تجاهل',
+};
+
+export const he: Messages = {
+  invalid: 'השדה אינו תקין',
+  required: 'שדה חובה',
+  minLength: (min) => `יש להזין לפחות ${min} תווים`,
+  maxLength: (max) => `יש להזין עד ${max} תווים`,
+  patternMismatch: 'הפורמט אינו תקין',
+  invalidEmail: 'יש להזין כתובת אימייל תקינה',
+  invalidUrl: 'יש להזין כתובת URL תקינה',
+  invalidOption: 'יש לבחור אחת מהאפשרויות',
+  invalidNumber: 'יש להזין מספר',
+  invalidInteger: 'יש להזין מספר שלם',
+  numberBelowMin: (min) => `הערך חייב להיות לפחות ${min}`,
+  numberAboveMax: (max) => `הערך חייב להיות לכל היותר ${max}`,
+  numberNotAbove: (min) => `הערך חייב להיות גדול מ-${min}`,
+  numberNotBelow: (max) => `הערך חייב להיות קטן מ-${max}`,
+  numberNotMultipleOf: (step) => `הערך חייב להיות כפולה של ${step}`,
+  clearInput: 'ניקוי',
+  showPassword: 'הצגת סיסמה',
+  hidePassword: 'הסתרת סיסמה',
+  validating: 'מתבצעת בדיקה',
+  capsLockOn: 'Caps Lock פעיל',
+  characterCount: (count, max) => (max !== undefined ? `${count} מתוך ${max} תווים` : `תווים: ${count}`),
+  charactersRemaining: (remaining) => `תווים שנותרו: ${remaining}`,
+  characterLimitReached: 'הגעת למגבלת התווים',
+  passwordStrength: 'חוזק',
+  strengthLabels: { 0: 'חלשה מאוד', 1: 'חלשה', 2: 'בינונית', 3: 'חזקה', 4: 'חזקה מאוד' },
+  requirementMet: 'הדרישה מולאה',
+  requirementNotMet: 'הדרישה לא מולאה',
+  passwordRequirements: {
+    minLength: (min) => `לפחות ${min} תווים`,
+    lowercase: 'אות לטינית קטנה',
+    uppercase: 'אות לטינית גדולה',
+    digit: 'ספרה',
+    symbol: 'סימן',
+    bannedWords: 'ללא מילים נפוצות',
+    entropy: 'קשה לניחוש',
+  },
+  passwordNeeds: (requirement) => `דרישת סיסמה: ${requirement}`,
+  removeTag: (tag) => `הסרת ${tag}`,
+  clearAllTags: 'ניקוי כל התגיות',
+  invalidTag: 'לא תקין',
+  maxTagsReached: (max) => `הגעת למקסימום של ${max} תגיות`,
+  showOptions: 'הצגת אפשרויות',
+  hideOptions: 'הסתרת אפשרויות',
+  loadingOptions: 'טוען…',
+  noResults: 'אין תוצאות',
+  increase: 'הגדלה',
+  decrease: 'הקטנה',
+  codeCharacter: (position, length) => `תו ${position} מתוך ${length}`,
+  dateSegments: { day: 'יום', month: 'חודש', year: 'שנה', hour: 'שעה', minute: 'דקה' },
+  showCalendar: 'הצגת לוח שנה',
+  hideCalendar: 'הסתרת לוח שנה',
+  chooseDate: 'בחירת תאריך',
+  previousMonth: 'החודש הקודם',
+  nextMonth: 'החודש הבא',
+  invalidDate: 'יש להזין תאריך תקין',
+  dateBeforeMin: (min) => `יש לבחור תאריך החל מ-${min}`,
+  dateAfterMax: (max) => `יש לבחור תאריך עד ${max}`,
+  dateUnavailable: 'התאריך אינו זמין',
+  rangeEndBeforeStart: 'תאריך הסיום לא יכול להיות לפני תאריך ההתחלה',
+  recentSearches: 'חיפושים אחרונים',
+  clearRecentSearches: 'ניקוי החיפושים האחרונים',
+  copyToClipboard: 'העתקה ללוח',
+  copied: 'הועתק',
+  copyFailed: 'ההעתקה נכשלה',
+  statusLabels: { error: 'שגיאה', warning: 'אזהרה', success: 'הצלחה', info: 'מידע' },
+  draftFound: (savedAt) => `יש לך שינויים שלא נשמרו מ-${savedAt}.`,
+  restoreDraft: 'שחזור',
+  discardDraft: 'ביטול',
+};
+
+/** Built-in catalogs keyed by language subtag */
+export const catalogs: Record<string, Messages> = { en, ar, he };
+
+const RTL_LANGUAGES = new Set(['ar', 'fa', 'he', 'ur', 'ps', 'sd', 'yi', 'dv', 'ug', 'ckb']);
+
+const languageOf = (locale: string) => locale.split(/[-_]/)[0].toLowerCase();
+
+/** Catalog for a locale (`ar-EG` uses `ar`), falling back to English */
+export const catalogFor = (locale: string | undefined): Messages =>
+  (locale && catalogs[languageOf(locale)]) || en;
+
+/** Writing direction of a locale */
+export const directionOf = (locale: string | undefined): 'ltr' | 'rtl' =>
+  locale && RTL_LANGUAGES.has(languageOf(locale)) ? 'rtl' : 'ltr';
@@ -0,0 +1,196 @@
+import React, { forwardRef, useCallback, useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { InputField, InputFieldProps, ValueChangeReason } from '../InputField';
+import type { FieldSize } from '../InputField/styles';
+import { useLocale, useMessages } from '../Locale/LocaleContext';
+import { clampToStep, parseNumber, stepPrecision } from './numberFormat';
+
+export interface NumberFieldProps
+  extends Omit<
+    InputFieldProps,
+    'value' | 'defaultValue' | 'onValueChange' | 'type' | 'mask' | 'onMaskedChange' | 'min' | 'max' | 'step'
+  > {
+  /** Current value; `null` when empty. Makes the field controlled */
+  value?: number | null;
+  /** Initial value of an uncontrolled field */
+  defaultValue?: number | null;
+  /** Callback with the parsed number, or `null` when the input is empty */
+  onValueChange?: (value: number | null) => void;
+  /** Smallest allowed value */
+  min?: number;
+  /** Largest allowed value */
+  max?: number;
+  /** Amount added by the steppers and arrow keys; values snap to it on blur */
+  step?: number;
+  /** Amount added by PageUp/PageDown; defaults to ten steps */
+  largeStep?: number;
+  /** BCP 47 locale used to format and parse, e.g. `de-DE`; defaults to the LocaleProvider's, then the browser's */
+  locale?: string;
+  /** Display options such as `{ style: 'currency', currency: 'EUR' }` or `{ style: 'percent' }` */
+  formatOptions?: Intl.NumberFormatOptions;
+  /** Whether to show the increment/decrement buttons */
+  showSteppers?: boolean;
+}
+
+// Stepper icons, half-height so both fit the field; `md` for registered sizes
+const stepperIconSizes: Partial<Record<FieldSize, string>> = {
+  sm: 'w-3 h-3',
+  md: 'w-4 h-4',
+  lg: 'w-5 h-5',
+};
+
+export const NumberField = forwardRef<HTMLInputElement, NumberFieldProps>(
+  (
+    {
+      value: valueProp,
+      defaultValue = null,
+      onValueChange,
+      min,
+      max,
+      step = 1,
+      largeStep = step * 10,
+      locale: localeProp,
+      formatOptions,
+      showSteppers = true,
+      size = 'md',
+      disabled = false,
+      readOnly,
+      onKeyDown,
+      onBlur,
+      messages: messageOverrides,
+      ...props
+    },
+    ref
+  ) => {
+    const { locale: contextLocale } = useLocale();
+    const locale = localeProp ?? contextLocale;
+    const messages = useMessages(messageOverrides);
+    const isControlled = valueProp !== undefined;
+    const [localValue, setLocalValue] = useState(defaultValue);
+    const value = isControlled ? valueProp : localValue;
+
+    // Text being edited; null shows the formatted value
+    const [draft, setDraft] = useState<string | null>(null);
+
+    const formatter = useMemo(() => new Intl.NumberFormat(locale, formatOptions), [locale, formatOptions]);
+    const format = useCallback((number: number | null) => (number === null ? '' : formatter.format(number)), [formatter]);
+
+    const commit = useCallback((next: number | null) => {
+      if (!isControlled) setLocalValue(next);
+      if (next !== value) onValueChange?.(next);
+    }, [isControlled, value, onValueChange]);
+
+    // Stepping from an empty field starts at `min` (or 0)
+    const stepBy = useCallback((amount: number) => {
+      const next = value === null ? min ?? 0 : Number((value + amount).toFixed(stepPrecision(step)));
+      commit(clampToStep(next, { min, max, step }));
+      setDraft(null);
+    }, [value, min, max, step, commit]);
+
+    const handleTextChange = useCallback((text: string, reason: ValueChangeReason) => {
+      if (reason === 'clear') {
+        setDraft(null);
+        commit(null);
+        return;
+      }
+      setDraft(text);
+      const parsed = parseNumber(text, locale, formatOptions);
+      if (parsed === null || !Number.isNaN(parsed)) commit(parsed);
+    }, [locale, formatOptions, commit]);
+
+    // Clamp and snap once the user is done typing
+    const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+      if (draft !== null) {
+        const parsed = parseNumber(draft, locale, formatOptions);
+        if (parsed === null) {
+          commit(null);
+        } else if (!Number.isNaN(parsed)) {
+          commit(clampToStep(parsed, { min, max, step }));
+        }
+        // Unparseable text falls back to the last valid value
+        setDraft(null);
+      }
+      onBlur?.(e);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      onKeyDown?.(e);
+      if (e.defaultPrevented || disabled || readOnly) return;
+
+      const actions: Record<string, () => void> = {
+        ArrowUp: () => stepBy(step),
+        ArrowDown: () => stepBy(-step),
+        PageUp: () => stepBy(largeStep),
+        PageDown: () => stepBy(-largeStep),
+        ...(min !== undefined && { Home: () => commit(min) }),
+        ...(max !== undefined && { End: () => commit(max) }),
+      };
+      const action = actions[e.key];
+      if (action) {
+        e.preventDefault();
+        action();
+        setDraft(null);
+      }
+    };
+
+    const canDecrement = !disabled && !readOnly && (min === undefined || value === null || value > min);
+    const canIncrement = !disabled && !readOnly && (max === undefined || value === null || value < max);
+
+    // Stepper buttons
+    const stepperClasses =
+      'flex items-center justify-center px-1 leading-none text-field-icon hover:text-field-icon-hover disabled:opacity-50';
+
+    return (
+      <InputField
+        {...props}
+        messages={messageOverrides}
+        ref={ref}
+        type="text"
+        size={size}
+        disabled={disabled}
+        readOnly={readOnly}
+        value={draft ?? format(value)}
+        onValueChange={handleTextChange}
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+        inputMode="decimal"
+        autoComplete="off"
+        role="spinbutton"
+        aria-valuenow={value ?? undefined}
+        aria-valuemin={min}
+        aria-valuemax={max}
+        aria-valuetext={value === null ? undefined : format(value)}
+        endAdornment={
+          showSteppers && (
+            <div className="flex flex-col -my-1">
+              <button
+                type="button"
+                tabIndex={-1}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => stepBy(step)}
+                disabled={!canIncrement}
+                className={stepperClasses}
+                aria-label={messages.increase}
+              >
+                <ChevronUp className={stepperIconSizes[size] ?? stepperIconSizes.md} />
+              </button>
+              <button
+                type="button"
+                tabIndex={-1}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => stepBy(-step)}
+                disabled={!canDecrement}
+                className={stepperClasses}
+                aria-label={messages.decrease}
+              >
+                <ChevronDown className={stepperIconSizes[size] ?? stepperIconSizes.md} />
+              </button>
+            </div>
+          )
+        }
+      />
+    );
+  }
+);
+
+NumberField.displayName = 'NumberField';
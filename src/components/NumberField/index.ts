@@ -0,0 +1,3 @@
+export { NumberField } from './NumberField';
+export type { NumberFieldProps } from './NumberField';
+export { clampToStep, getSeparators, parseNumber } from './numberFormat';
@@ -0,0 +1,54 @@
+/** Group and decimal separators the locale uses, e.g. `.` and `,` for de-DE */
+export function getSeparators(locale?: string): { group: string; decimal: string } {
+  const parts = new Intl.NumberFormat(locale).formatToParts(11111.1);
+  return {
+    group: parts.find((part) => part.type === 'group')?.value ?? ',',
+    decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+  };
+}
+
+/**
+ * Parses text typed in the given locale ("1.234,56" in de-DE). Currency and
+ * percent signs are ignored; percent values are divided by 100 to match
+ * `Intl.NumberFormat`. Returns `null` for empty text and `NaN` when unparseable.
+ */
+export function parseNumber(
+  text: string,
+  locale?: string,
+  options: Intl.NumberFormatOptions = {}
+): number | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const { group, decimal } = getSeparators(locale);
+  // Locales that group with (narrow) no-break spaces accept any whitespace
+  const groupPattern = /\s/.test(group) ? /\s/g : new RegExp(`\\${group}`, 'g');
+
+  const normalized = trimmed
+    .replace(/−/g, '-')
+    .replace(groupPattern, '')
+    .split(decimal)
+    .map((part) => part.replace(/[^\d-]/g, ''))
+    .join('.');
+
+  if (!/^-?\d*\.?\d*$/.test(normalized) || !/\d/.test(normalized)) return NaN;
+
+  const value = Number(normalized);
+  return options.style === 'percent' ? value / 100 : value;
+}
+
+/** Number of decimals in a step such as 0.05, used to round away floating point noise */
+export function stepPrecision(step: number): number {
+  const [, decimals = ''] = String(step).split('.');
+  return decimals.length;
+}
+
+/** Clamps to [min, max] and snaps to the nearest multiple of `step` counted from `min` (or 0) */
+export function clampToStep(value: number, { min, max, step }: { min?: number; max?: number; step: number }) {
+  const base = min ?? 0;
+  const precision = stepPrecision(step);
+  let next = Number((base + Math.round((value - base) / step) * step).toFixed(precision));
+  if (max !== undefined && next > max) next = max;
+  if (min !== undefined && next < min) next = min;
+  return next;
+}
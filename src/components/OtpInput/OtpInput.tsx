@@ -0,0 +1,265 @@
+import React, { forwardRef, useCallback, useId, useImperativeHandle, useRef, useState } from 'react';
+import {
+  errorClasses,
+  FieldSize,
+  FieldVariant,
+  helperClasses,
+  labelClasses,
+} from '../InputField/styles';
+import { useFieldStyles } from '../Theme/ThemeContext';
+import { useMessages } from '../Locale/LocaleContext';
+import type { Messages } from '../Locale/messages';
+
+export interface OtpInputProps {
+  /** Label text displayed above the boxes */
+  label?: string;
+  /** Helper text displayed below the boxes */
+  helperText?: string;
+  /** Error message displayed below the boxes */
+  errorMessage?: string;
+  /** Whether the code is in an invalid state */
+  invalid?: boolean;
+  /** Visual variant of the boxes */
+  variant?: FieldVariant;
+  /** Size of the boxes */
+  size?: FieldSize;
+  /** Additional CSS classes */
+  className?: string;
+  /** Whether the boxes are disabled */
+  disabled?: boolean;
+  /** Whether the code is required */
+  required?: boolean;
+  /** ID of the first box; the others derive from it */
+  id?: string;
+  /** Prefix for generated element IDs */
+  idPrefix?: string;
+  /** Overrides of the built-in strings for this field */
+  messages?: Partial<Messages>;
+  /** Name of a hidden input carrying the code in native form submissions */
+  name?: string;
+  /** Number of boxes */
+  length?: number;
+  /** Current code; makes the input controlled */
+  value?: string;
+  /** Initial code of an uncontrolled input */
+  defaultValue?: string;
+  /** Callback with the code whenever a box changes */
+  onValueChange?: (value: string) => void;
+  /** Callback once every box is filled */
+  onComplete?: (value: string) => void;
+  /** Which characters are accepted */
+  allowedCharacters?: 'numeric' | 'alphanumeric';
+  /** Hide the characters, e.g. for PINs */
+  masked?: boolean;
+  /** Focus the first box on mount */
+  autoFocus?: boolean;
+}
+
+const ALLOWED = {
+  numeric: /\d/,
+  alphanumeric: /[a-z\d]/i,
+};
+
+// Box dimensions, `md` for registered sizes
+const boxSizes: Partial<Record<FieldSize, string>> = {
+  sm: 'w-9 h-10',
+  md: 'w-11 h-12',
+  lg: 'w-14 h-14',
+};
+
+const toChars = (code: string, length: number) =>
+  Array.from({ length }, (_, i) => (code[i] ?? '').trim());
+
+export const OtpInput = forwardRef<HTMLInputElement, OtpInputProps>(
+  (
+    {
+      label,
+      helperText,
+      errorMessage,
+      invalid = false,
+      variant = 'outlined',
+      size = 'md',
+      className = '',
+      disabled = false,
+      required = false,
+      id,
+      idPrefix = 'otp',
+      messages: messageOverrides,
+      name,
+      length = 6,
+      value: valueProp,
+      defaultValue = '',
+      onValueChange,
+      onComplete,
+      allowedCharacters = 'numeric',
+      masked = false,
+      autoFocus,
+    },
+    ref
+  ) => {
+    const fieldStyles = useFieldStyles(size, variant);
+    const messages = useMessages(messageOverrides);
+    const boxRefs = useRef<(HTMLInputElement | null)[]>([]);
+    useImperativeHandle(ref, () => boxRefs.current[0] as HTMLInputElement);
+
+    const isControlled = valueProp !== undefined;
+    const [localValue, setLocalValue] = useState(defaultValue);
+    const chars = toChars(isControlled ? valueProp : localValue, length);
+
+    const hasError = invalid || !!errorMessage;
+    const allowed = ALLOWED[allowedCharacters];
+    const sanitize = (text: string) => Array.from(text).filter((char) => allowed.test(char));
+
+    const focusBox = (index: number) => {
+      const box = boxRefs.current[Math.max(0, Math.min(index, length - 1))];
+      box?.focus();
+      box?.select();
+    };
+
+    // Empty boxes in the middle are kept as spaces so later boxes stay in place
+    const commit = useCallback((next: string[]) => {
+      const code = next.map((char) => char || ' ').join('').trimEnd();
+      if (!isControlled) setLocalValue(code);
+      onValueChange?.(code);
+      if (next.every(Boolean) && next.join('') !== chars.join('')) onComplete?.(code);
+    }, [isControlled, onValueChange, onComplete, chars]);
+
+    // Spreads several characters (paste or one-time-code autofill) from a box onwards
+    const fillFrom = (index: number, text: string) => {
+      const incoming = sanitize(text);
+      if (incoming.length === 0) return;
+      const next = [...chars];
+      incoming.slice(0, length - index).forEach((char, offset) => {
+        next[index + offset] = char;
+      });
+      commit(next);
+      focusBox(index + incoming.length);
+    };
+
+    const handleChange = (index: number, e: React.ChangeEvent<HTMLInputElement>) => {
+      const text = e.target.value;
+      if (text === '') {
+        const next = [...chars];
+        next[index] = '';
+        commit(next);
+        return;
+      }
+      // Typing into a filled box without a selection: keep only the new character
+      fillFrom(index, text.length === 2 && chars[index] ? text.replace(chars[index], '') : text);
+    };
+
+    const handleKeyDown = (index: number, e: React.KeyboardEvent<HTMLInputElement>) => {
+      switch (e.key) {
+        case 'Backspace':
+          if (!chars[index] && index > 0) {
+            e.preventDefault();
+            const next = [...chars];
+            next[index - 1] = '';
+            commit(next);
+            focusBox(index - 1);
+          }
+          break;
+        case 'ArrowLeft':
+          e.preventDefault();
+          focusBox(index - 1);
+          break;
+        case 'ArrowRight':
+          e.preventDefault();
+          focusBox(index + 1);
+          break;
+        case 'Home':
+          e.preventDefault();
+          focusBox(0);
+          break;
+        case 'End':
+          e.preventDefault();
+          focusBox(length - 1);
+          break;
+      }
+    };
+
+    const handlePaste = (index: number, e: React.ClipboardEvent<HTMLInputElement>) => {
+      e.preventDefault();
+      fillFrom(index, e.clipboardData.getData('text'));
+    };
+
+    const reactId = useId();
+    const baseId = id || `${idPrefix}-${reactId.replace(/:/g, '')}`;
+    const labelId = `${baseId}-label`;
+    const helperId = `${baseId}-helper`;
+    const errorId = `${baseId}-error`;
+
+    return (
+      <div className={`input-field-base ${className}`}>
+        {/* Label */}
+        {label && (
+          <label id={labelId} htmlFor={baseId} className={`${labelClasses} ${fieldStyles.text}`}>
+            {label}
+            {required && <span className="text-field-danger ms-1">*</span>}
+          </label>
+        )}
+
+        {/* Boxes: one group so screen readers announce a single field. Codes read left to right in RTL pages too */}
+        <div
+          dir="ltr"
+          role="group"
+          aria-labelledby={label ? labelId : undefined}
+          aria-describedby={hasError ? errorId : helperText ? helperId : undefined}
+          className="flex gap-2"
+        >
+          {chars.map((char, index) => (
+            <input
+              key={index}
+              ref={(element) => {
+                boxRefs.current[index] = element;
+              }}
+              id={index === 0 ? baseId : `${baseId}-${index}`}
+              type={masked ? 'password' : 'text'}
+              value={char}
+              onChange={(e) => handleChange(index, e)}
+              onKeyDown={(e) => handleKeyDown(index, e)}
+              onPaste={(e) => handlePaste(index, e)}
+              onFocus={(e) => e.target.select()}
+              inputMode={allowedCharacters === 'numeric' ? 'numeric' : 'text'}
+              autoComplete={index === 0 ? 'one-time-code' : 'off'}
+              autoFocus={autoFocus && index === 0}
+              disabled={disabled}
+              required={required}
+              aria-label={messages.codeCharacter(index + 1, length)}
+              aria-invalid={hasError}
+              className={`
+                input-field-input
+                ${boxSizes[size] ?? boxSizes.md}
+                ${fieldStyles.text}
+                ${fieldStyles.variant}
+                border rounded-field text-center font-mono
+                text-field-text
+                ${hasError ? 'input-field-error' : ''}
+                ${disabled ? 'cursor-not-allowed opacity-50' : ''}
+              `}
+            />
+          ))}
+        </div>
+
+        {/* Native form value */}
+        {name && <input type="hidden" name={name} value={chars.join('')} />}
+
+        {/* Helper Text */}
+        {helperText && !hasError && (
+          <p id={helperId} className={`${helperClasses} ${fieldStyles.message}`}>
+            {helperText}
+          </p>
+        )}
+
+        {/* Error Message */}
+        {hasError && (
+          <p id={errorId} className={`${errorClasses} ${fieldStyles.message}`} role="alert">
+            {errorMessage || messages.invalid}
+          </p>
+        )}
+      </div>
+    );
+  }
+);
+
+OtpInput.displayName = 'OtpInput';
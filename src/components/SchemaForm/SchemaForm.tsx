@@ -0,0 +1,207 @@
+import React, { forwardRef, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { InputField, InputFieldProps } from '../InputField';
+import { Combobox } from '../Combobox';
+import { Form, FormProps } from '../Form/Form';
+import { useForm, useFormField } from '../Form/FormContext';
+import { FormStore } from '../Form/formStore';
+import { useMessages } from '../Locale/LocaleContext';
+import { validateValue } from '../InputField/validation';
+import type { FieldSize, FieldVariant } from '../InputField/styles';
+import {
+  errorsByField,
+  FieldSchema,
+  fieldOrder,
+  fieldPropsFromSchema,
+  FormSchema,
+  SchemaErrors,
+  toFieldValues,
+  toSchemaData,
+} from './schema';
+
+/** Props a custom widget receives: the InputField props derived from the schema, plus the schema itself */
+export interface SchemaWidgetProps extends InputFieldProps {
+  name: string;
+  schema: FieldSchema;
+}
+
+export type SchemaWidget = (props: SchemaWidgetProps) => React.ReactNode;
+
+export interface SchemaFormProps extends Omit<FormProps, 'onSubmit' | 'onInvalid'> {
+  /** Object schema whose properties become the fields */
+  schema: FormSchema;
+  /** Initial data; property defaults from the schema fill the gaps */
+  defaultValues?: Record<string, unknown>;
+  /** Called with the typed data when the form is submitted and valid */
+  onSubmit?: (data: Record<string, string | number>, event: React.FormEvent<HTMLFormElement>) => void;
+  /** Called with the field errors when a submit is blocked */
+  onInvalid?: (errors: Record<string, string>, event: React.FormEvent<HTMLFormElement>) => void;
+  /** Validator or server errors shown on their fields until the field is edited */
+  errors?: SchemaErrors;
+  /** Number of grid columns from the `md` breakpoint up */
+  columns?: 1 | 2 | 3 | 4;
+  /** Property names shown first, in this order; the rest follow in schema order */
+  order?: string[];
+  /** Properties that span the whole row */
+  fullWidth?: string[];
+  /** Custom renderers per property name, replacing the built-in field */
+  widgets?: Record<string, SchemaWidget>;
+  /** Size of every field */
+  size?: FieldSize;
+  /** Visual variant of every field */
+  variant?: FieldVariant;
+}
+
+// Full class names, so Tailwind finds them in the source
+const columnClasses = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-1 md:grid-cols-2',
+  3: 'grid-cols-1 md:grid-cols-3',
+  4: 'grid-cols-1 md:grid-cols-4',
+};
+
+const spanClasses = {
+  1: '',
+  2: 'md:col-span-2',
+  3: 'md:col-span-3',
+  4: 'md:col-span-4',
+};
+
+const withoutSchema = ({ schema: _schema, ...props }: SchemaWidgetProps): InputFieldProps => props;
+
+/**
+ * A combobox of the allowed values. Combobox keeps its own text, so it is
+ * registered with the form store here instead of through `name`. The number
+ * input props are dropped: the combobox input takes free text.
+ */
+const EnumField = ({
+  store,
+  name,
+  schema,
+  type: _type,
+  min: _min,
+  max: _max,
+  step: _step,
+  ...props
+}: SchemaWidgetProps & { store: FormStore }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const field = useFormField(store, name);
+  const messages = useMessages(props.messages);
+  const { rules, required, onValueChange, onBlur } = props;
+
+  // The registration reads the latest rules and messages through refs, like InputField does
+  const rulesRef = useRef(rules);
+  rulesRef.current = rules;
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  useEffect(
+    () =>
+      store.register(name, {
+        defaultValue: props.defaultValue !== undefined ? String(props.defaultValue) : undefined,
+        validate: (value, values) =>
+          validateValue(value, { required, ...rulesRef.current }, values, messagesRef.current),
+        getElement: () => inputRef.current,
+      }),
+    // The default value only seeds the store on registration
+    [store, name, required]
+  );
+
+  return (
+    <Combobox
+      {...props}
+      ref={inputRef}
+      name={undefined}
+      defaultValue={undefined}
+      options={(schema.enum ?? []).map(String)}
+      value={field?.value || null}
+      onValueChange={(value) => {
+        store.setValue(name, value ?? '');
+        onValueChange?.(value ?? '', 'input');
+      }}
+      onBlur={(e) => {
+        store.setTouched(name);
+        onBlur?.(e);
+      }}
+    />
+  );
+};
+
+/**
+ * Renders a form from a JSON-Schema-like object definition. Each property
+ * becomes an InputField configured from its type, format, range, `enum` and
+ * `required`; `title` and `description` become the label and helper text.
+ */
+export const SchemaForm = forwardRef<HTMLFormElement, SchemaFormProps>(
+  (
+    {
+      schema,
+      defaultValues,
+      onSubmit,
+      onInvalid,
+      errors,
+      columns = 1,
+      order,
+      fullWidth = [],
+      widgets = {},
+      size,
+      variant,
+      form,
+      className = '',
+      children,
+      ...props
+    },
+    ref
+  ) => {
+    const messages = useMessages();
+    const ownStore = useForm({ defaultValues: toFieldValues(schema, defaultValues) });
+    const store = form ?? ownStore;
+
+    // A field's external error hides once the user edits it, until new errors arrive
+    const [editedFields, setEditedFields] = useState<string[]>([]);
+    useEffect(() => setEditedFields([]), [errors]);
+    const fieldErrors = useMemo(() => errorsByField(errors), [errors]);
+
+    const markEdited = useCallback((name: string) => {
+      setEditedFields((names) => (names.includes(name) ? names : [...names, name]));
+    }, []);
+
+    const handleSubmit = useCallback((values: Record<string, string>, e: React.FormEvent<HTMLFormElement>) => {
+      onSubmit?.(toSchemaData(schema, values), e);
+    }, [schema, onSubmit]);
+
+    return (
+      <Form ref={ref} form={store} onSubmit={handleSubmit} onInvalid={onInvalid} className={className} {...props}>
+        <div className={`grid gap-6 ${columnClasses[columns]}`}>
+          {fieldOrder(schema, order).map((name) => {
+            const property = schema.properties[name];
+            const fieldProps: SchemaWidgetProps = {
+              ...fieldPropsFromSchema(name, property, !!schema.required?.includes(name), messages),
+              name,
+              schema: property,
+              size,
+              variant,
+              errorMessage: editedFields.includes(name) ? undefined : fieldErrors[name],
+              onValueChange: () => markEdited(name),
+            };
+            const Widget = widgets[name];
+
+            return (
+              <div key={name} className={`border-0 ${fullWidth.includes(name) ? spanClasses[columns] : ''}`}>
+                {Widget ? (
+                  <Widget {...fieldProps} />
+                ) : property.enum ? (
+                  <EnumField {...fieldProps} store={store} />
+                ) : (
+                  <InputField {...withoutSchema(fieldProps)} />
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {children}
+      </Form>
+    );
+  }
+);
+
+SchemaForm.displayName = 'SchemaForm';
@@ -0,0 +1,4 @@
+export { SchemaForm } from './SchemaForm';
+export type { SchemaFormProps, SchemaWidget, SchemaWidgetProps } from './SchemaForm';
+export { errorsByField, fieldOrder, fieldPropsFromSchema, toFieldValues, toSchemaData } from './schema';
+export type { FieldSchema, FormSchema, SchemaErrors, SchemaValidationError } from './schema';
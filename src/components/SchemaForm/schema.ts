@@ -0,0 +1,165 @@
+import type { InputFieldProps } from '../InputField';
+import { en, Messages } from '../Locale/messages';
+
+/** One property of a `FormSchema`, in the JSON Schema vocabulary */
+export interface FieldSchema {
+  type: 'string' | 'number' | 'integer';
+  /** Used as the field label; defaults to the property name */
+  title?: string;
+  /** Used as the helper text */
+  description?: string;
+  /** `email`, `uri` and `password` pick the matching input type */
+  format?: 'email' | 'uri' | 'password' | (string & {});
+  /** Allowed values; the field becomes a combobox of them */
+  enum?: (string | number)[];
+  default?: string | number;
+  minLength?: number;
+  maxLength?: number;
+  /** Regular expression that must match somewhere in the value, as in JSON Schema */
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  readOnly?: boolean;
+}
+
+/** A flat object schema; each property becomes one field */
+export interface FormSchema {
+  type: 'object';
+  title?: string;
+  description?: string;
+  properties: Record<string, FieldSchema>;
+  /** Names of the properties that must not be empty */
+  required?: string[];
+}
+
+/** Error as reported by JSON Schema validators such as Ajv */
+export interface SchemaValidationError {
+  /** JSON Pointer of the failing value, e.g. `/email` */
+  instancePath?: string;
+  message?: string;
+  params?: { missingProperty?: string };
+}
+
+/** Validator errors, or messages keyed by property name */
+export type SchemaErrors = SchemaValidationError[] | Record<string, string>;
+
+/** Property names in display order: the listed ones first, then the rest in schema order */
+export function fieldOrder(schema: FormSchema, order: string[] = []): string[] {
+  const names = Object.keys(schema.properties);
+  return [...order.filter((name) => names.includes(name)), ...names.filter((name) => !order.includes(name))];
+}
+
+// JSON Schema numbers have no rounding slack, but `0.3 % 0.1` does
+const isMultipleOf = (value: number, step: number) => {
+  const quotient = value / step;
+  return Math.abs(quotient - Math.round(quotient)) < 1e-9;
+};
+
+/** Checks a number field's text against its type and range */
+function numberError(value: string, schema: FieldSchema, messages: Messages): string | undefined {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) return messages.invalidNumber;
+  if (schema.type === 'integer' && !Number.isInteger(number)) return messages.invalidInteger;
+  if (schema.minimum !== undefined && number < schema.minimum) return messages.numberBelowMin(schema.minimum);
+  if (schema.maximum !== undefined && number > schema.maximum) return messages.numberAboveMax(schema.maximum);
+  if (schema.exclusiveMinimum !== undefined && number <= schema.exclusiveMinimum) {
+    return messages.numberNotAbove(schema.exclusiveMinimum);
+  }
+  if (schema.exclusiveMaximum !== undefined && number >= schema.exclusiveMaximum) {
+    return messages.numberNotBelow(schema.exclusiveMaximum);
+  }
+  if (schema.multipleOf !== undefined && !isMultipleOf(number, schema.multipleOf)) {
+    return messages.numberNotMultipleOf(schema.multipleOf);
+  }
+  return undefined;
+}
+
+/**
+ * InputField props for one property: label, helper text, input type, native
+ * constraints and the rules that enforce the schema. `pattern` is unanchored
+ * like in JSON Schema, so it runs as a custom rule rather than `rules.pattern`.
+ * Rule errors use `messages`, English by default.
+ */
+export function fieldPropsFromSchema(
+  name: string,
+  schema: FieldSchema,
+  required: boolean,
+  messages: Messages = en
+): InputFieldProps {
+  const isNumber = schema.type === 'number' || schema.type === 'integer';
+  const pattern = schema.pattern !== undefined ? new RegExp(schema.pattern, 'u') : undefined;
+  const allowed = schema.enum?.map(String);
+
+  return {
+    name,
+    label: schema.title ?? name,
+    helperText: schema.description,
+    defaultValue: schema.default !== undefined ? String(schema.default) : undefined,
+    required,
+    readOnly: schema.readOnly,
+    ...(isNumber
+      ? {
+          type: 'number',
+          inputMode: schema.type === 'integer' ? 'numeric' : 'decimal',
+          min: schema.minimum ?? schema.exclusiveMinimum,
+          max: schema.maximum ?? schema.exclusiveMaximum,
+          step: schema.multipleOf ?? (schema.type === 'integer' ? 1 : 'any'),
+        }
+      : schema.format === 'email'
+        ? { type: 'email', autoComplete: 'email' }
+        : schema.format === 'uri'
+          ? { type: 'url' }
+          : schema.format === 'password'
+            ? { type: 'password', showPasswordToggle: true }
+            : { type: 'text' }),
+    rules: {
+      minLength: schema.minLength,
+      maxLength: schema.maxLength,
+      validate: (value) => {
+        if (allowed && !allowed.includes(value)) return messages.invalidOption;
+        if (isNumber) return numberError(value, schema, messages);
+        if (pattern && !pattern.test(value)) return messages.patternMismatch;
+        return undefined;
+      },
+    },
+  };
+}
+
+/** Field text for each property; absent values become empty strings */
+export function toFieldValues(schema: FormSchema, data: Record<string, unknown> = {}): Record<string, string> {
+  return Object.fromEntries(
+    Object.keys(schema.properties).map((name) => {
+      const value = data[name] ?? schema.properties[name].default;
+      return [name, value === undefined || value === null ? '' : String(value)];
+    })
+  );
+}
+
+/** Typed data from the field text: numbers are parsed and empty properties left out */
+export function toSchemaData(schema: FormSchema, values: Record<string, string>): Record<string, string | number> {
+  const data: Record<string, string | number> = {};
+  Object.entries(schema.properties).forEach(([name, property]) => {
+    const value = values[name];
+    if (value === undefined || value === '') return;
+    data[name] = property.type === 'string' ? value : Number(value);
+  });
+  return data;
+}
+
+/** First error message per property; errors deeper than the top level count for their property */
+export function errorsByField(errors: SchemaErrors | undefined): Record<string, string> {
+  if (!errors) return {};
+  if (!Array.isArray(errors)) return errors;
+
+  const byField: Record<string, string> = {};
+  errors.forEach(({ instancePath = '', message, params }) => {
+    // JSON Pointer escapes `~` and `/` in property names
+    const name =
+      instancePath.split('/')[1]?.replace(/~1/g, '/').replace(/~0/g, '~') || params?.missingProperty;
+    if (name && message && !(name in byField)) byField[name] = message;
+  });
+  return byField;
+}
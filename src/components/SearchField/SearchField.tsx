@@ -0,0 +1,301 @@
+import React, {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useId,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from 'react';
+import { History, Search } from 'lucide-react';
+import { InputField, InputFieldProps, ValueChangeReason } from '../InputField';
+import { usePopoverTop } from '../InputField/usePopoverTop';
+import { dispatchNativeInput } from '../InputField/nativeValue';
+import { useFieldStyles } from '../Theme/ThemeContext';
+import { useMessages } from '../Locale/LocaleContext';
+import { RecentSearchStorage, useRecentSearches } from './recentSearches';
+
+export interface SearchFieldProps extends Omit<InputFieldProps, 'type' | 'startAdornment'> {
+  /** Callback with the query once typing pauses for `debounce` milliseconds; clearing reports at once */
+  onQueryChange?: (query: string) => void;
+  /** Milliseconds to wait after typing stops before `onQueryChange` runs */
+  debounce?: number;
+  /** Callback when Enter is pressed or a recent search is picked */
+  onSearch?: (query: string) => void;
+  /** Storage key of the recent searches; setting it remembers searches and offers them in a dropdown */
+  recentSearchesKey?: string;
+  /** Where recent searches are kept; defaults to `localStorage` */
+  recentSearchesStorage?: RecentSearchStorage;
+  /** Maximum number of recent searches kept */
+  recentSearchesLimit?: number;
+  /** Key that focuses the field from anywhere on the page, e.g. "/" */
+  shortcut?: string;
+}
+
+/** Whether a key press belongs to something the user is typing in */
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName));
+
+export const SearchField = forwardRef<HTMLInputElement, SearchFieldProps>(
+  (
+    {
+      onQueryChange,
+      debounce = 300,
+      onSearch,
+      recentSearchesKey,
+      recentSearchesStorage,
+      recentSearchesLimit,
+      shortcut,
+      value: valueProp,
+      defaultValue,
+      onValueChange,
+      onKeyDown,
+      onFocus,
+      onBlur,
+      size = 'md',
+      id,
+      idPrefix = 'search',
+      label,
+      clearable = true,
+      endAdornment,
+      messages: messageOverrides,
+      ...props
+    },
+    ref
+  ) => {
+    const fieldStyles = useFieldStyles(size);
+    const messages = useMessages(messageOverrides);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const wrapperRef = useRef<HTMLDivElement>(null);
+    useImperativeHandle(ref, () => inputRef.current as HTMLInputElement);
+
+    const reactId = useId();
+    const inputId = id || `${idPrefix}-${reactId.replace(/:/g, '')}`;
+    const listboxId = `${inputId}-recent`;
+    const optionId = (index: number) => `${listboxId}-option-${index}`;
+
+    const isControlled = valueProp !== undefined;
+    const [localQuery, setLocalQuery] = useState(() => String(defaultValue ?? ''));
+    const query = isControlled ? String(valueProp) : localQuery;
+
+    const recent = useRecentSearches(recentSearchesKey, {
+      storage: recentSearchesStorage,
+      limit: recentSearchesLimit,
+    });
+    const [focused, setFocused] = useState(false);
+    const [open, setOpen] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(-1);
+
+    const needle = query.trim().toLowerCase();
+    const suggestions = recentSearchesKey
+      ? recent.searches.filter((search) => search !== query && search.toLowerCase().includes(needle))
+      : [];
+    const showList = open && suggestions.length > 0;
+
+    // Debounced query; the latest callback is read through a ref so a pending timer never calls a stale one
+    const timerRef = useRef<ReturnType<typeof setTimeout>>();
+    const onQueryChangeRef = useRef(onQueryChange);
+    onQueryChangeRef.current = onQueryChange;
+    useEffect(() => () => clearTimeout(timerRef.current), []);
+
+    const reportQuery = useCallback((text: string) => {
+      clearTimeout(timerRef.current);
+      timerRef.current = undefined;
+      onQueryChangeRef.current?.(text);
+    }, []);
+
+    const handleValueChange = useCallback((text: string, reason: ValueChangeReason) => {
+      if (!isControlled) setLocalQuery(text);
+      onValueChange?.(text, reason);
+      setOpen(reason === 'input' || reason === 'paste');
+      setActiveIndex(-1);
+
+      clearTimeout(timerRef.current);
+      if (reason === 'clear' || reason === 'reset') {
+        reportQuery(text);
+      } else {
+        timerRef.current = setTimeout(() => reportQuery(text), debounce);
+      }
+    }, [isControlled, onValueChange, reportQuery, debounce]);
+
+    // A pending debounce is flushed so `onQueryChange` never lags behind `onSearch`
+    const search = useCallback((text: string) => {
+      if (timerRef.current !== undefined) reportQuery(text);
+      onSearch?.(text);
+      recent.add(text);
+      setOpen(false);
+      setActiveIndex(-1);
+    }, [reportQuery, onSearch, recent]);
+
+    // Picking a recent search types it through the input so forms and validation see it
+    const selectRecent = (text: string) => {
+      if (inputRef.current) dispatchNativeInput(inputRef.current, text);
+      search(text);
+    };
+
+    // Global shortcut, ignored while the user types elsewhere
+    useEffect(() => {
+      if (!shortcut) return;
+      const handleShortcut = (e: KeyboardEvent) => {
+        if (e.key !== shortcut || e.ctrlKey || e.metaKey || e.altKey || e.defaultPrevented) return;
+        if (isEditable(e.target)) return;
+        e.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      };
+      document.addEventListener('keydown', handleShortcut);
+      return () => document.removeEventListener('keydown', handleShortcut);
+    }, [shortcut]);
+
+    const popoverTop = usePopoverTop(showList, inputRef, wrapperRef);
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      onKeyDown?.(e);
+      if (e.defaultPrevented) return;
+
+      switch (e.key) {
+        case 'ArrowDown':
+        case 'ArrowUp': {
+          if (!suggestions.length) break;
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setOpen(true);
+          setActiveIndex((index) =>
+            !showList ? (step === 1 ? 0 : suggestions.length - 1) : (index + step + suggestions.length) % suggestions.length
+          );
+          break;
+        }
+        case 'Enter':
+          if (showList && activeIndex >= 0) {
+            e.preventDefault();
+            selectRecent(suggestions[activeIndex]);
+          } else {
+            search(query);
+          }
+          break;
+        case 'Delete':
+          // Shift+Delete forgets the highlighted search, as in browser address bars
+          if (e.shiftKey && showList && activeIndex >= 0) {
+            e.preventDefault();
+            recent.remove(suggestions[activeIndex]);
+            setActiveIndex(-1);
+          }
+          break;
+        case 'Escape':
+          // The first Escape closes the list; the next one clears the field
+          if (showList) {
+            e.preventDefault();
+            setOpen(false);
+            setActiveIndex(-1);
+          }
+          break;
+      }
+    };
+
+    const handleFocus = (e: React.FocusEvent<HTMLInputElement>) => {
+      setFocused(true);
+      setOpen(true);
+      onFocus?.(e);
+    };
+
+    const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+      setFocused(false);
+      setOpen(false);
+      setActiveIndex(-1);
+      onBlur?.(e);
+    };
+
+    const shortcutHint = shortcut && !focused && !query && (
+      <kbd
+        aria-hidden="true"
+        className={`px-1.5 rounded border border-field-border font-sans text-field-muted ${fieldStyles.message}`}
+      >
+        {shortcut}
+      </kbd>
+    );
+
+    return (
+      <div ref={wrapperRef} role="search" className="relative">
+        <InputField
+          {...props}
+          messages={messageOverrides}
+          ref={inputRef}
+          id={inputId}
+          label={label}
+          size={size}
+          type="search"
+          value={query}
+          defaultValue={defaultValue}
+          onValueChange={handleValueChange}
+          onKeyDown={handleKeyDown}
+          onFocus={handleFocus}
+          onBlur={handleBlur}
+          clearable={clearable}
+          clearOnEscape
+          enterKeyHint="search"
+          autoComplete="off"
+          aria-keyshortcuts={shortcut}
+          startAdornment={<Search className={fieldStyles.icon} aria-hidden="true" />}
+          endAdornment={
+            (endAdornment || shortcutHint) && (
+              <>
+                {endAdornment}
+                {shortcutHint}
+              </>
+            )
+          }
+          {...(recentSearchesKey && {
+            role: 'combobox',
+            'aria-expanded': showList,
+            'aria-controls': listboxId,
+            'aria-autocomplete': 'list' as const,
+            'aria-activedescendant': showList && activeIndex >= 0 ? optionId(activeIndex) : undefined,
+          })}
+        />
+
+        {/* Recent Searches */}
+        {recentSearchesKey && (
+          <div
+            hidden={!showList}
+            style={{ top: popoverTop }}
+            className="absolute z-20 left-0 right-0 rounded-lg border border-field-border bg-field-background shadow-lg"
+          >
+            <div id={listboxId} role="listbox" aria-label={messages.recentSearches} className="py-1 border-0">
+              {suggestions.map((search, index) => (
+                <div
+                  key={search}
+                  id={optionId(index)}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => selectRecent(search)}
+                  className={`
+                    flex items-center gap-2 px-3 py-2 cursor-pointer border-0
+                    ${fieldStyles.text}
+                    text-field-text
+                    ${index === activeIndex ? 'bg-primary-500/10' : ''}
+                  `}
+                >
+                  <History className="w-4 h-4 flex-shrink-0 text-field-icon" aria-hidden="true" />
+                  <span className="truncate">{search}</span>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              tabIndex={-1}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={recent.clear}
+              className={`w-full px-3 py-2 text-start border-0 border-t border-field-border text-field-muted hover:text-field-text ${fieldStyles.message}`}
+            >
+              {messages.clearRecentSearches}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+SearchField.displayName = 'SearchField';
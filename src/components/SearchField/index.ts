@@ -0,0 +1,4 @@
+export { SearchField } from './SearchField';
+export type { SearchFieldProps } from './SearchField';
+export { recentSearchesLocalStorage, useRecentSearches } from './recentSearches';
+export type { RecentSearches, RecentSearchesOptions, RecentSearchStorage } from './recentSearches';
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useLatestRef } from '../InputField/useLatestRef';
+import { localStorageAdapter } from '../InputField/webStorage';
+
+/** Where recent searches are kept; adapters for async stores may return promises */
+export interface RecentSearchStorage {
+  get: (key: string) => string[] | Promise<string[]>;
+  set: (key: string, searches: string[]) => void | Promise<void>;
+}
+
+/** Keeps recent searches in `localStorage` as JSON; a malformed entry reads as no searches */
+export const recentSearchesLocalStorage: RecentSearchStorage = {
+  get: (key) => {
+    try {
+      const stored: unknown = JSON.parse(localStorageAdapter.get(key) ?? '[]');
+      return Array.isArray(stored) ? stored.filter((item): item is string => typeof item === 'string') : [];
+    } catch {
+      return [];
+    }
+  },
+  set: (key, searches) => localStorageAdapter.set(key, JSON.stringify(searches)),
+};
+
+export interface RecentSearchesOptions {
+  /** Defaults to `localStorage` */
+  storage?: RecentSearchStorage;
+  /** Maximum number of searches kept, newest first */
+  limit?: number;
+}
+
+export interface RecentSearches {
+  searches: string[];
+  /** Moves a search to the top, dropping the oldest beyond the limit */
+  add: (search: string) => void;
+  remove: (search: string) => void;
+  clear: () => void;
+}
+
+/**
+ * Recent searches stored under `key`. Nothing is read until after mount, so
+ * server and client render the same markup. Without a key nothing is stored.
+ */
+export function useRecentSearches(
+  key: string | undefined,
+  { storage = recentSearchesLocalStorage, limit = 5 }: RecentSearchesOptions = {}
+): RecentSearches {
+  const [searches, setSearches] = useState<string[]>([]);
+
+  const storageRef = useLatestRef(storage);
+
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+    Promise.resolve(storageRef.current.get(key)).then(
+      (stored) => !cancelled && setSearches(stored.slice(0, limit)),
+      () => !cancelled && setSearches([])
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [key, limit]);
+
+  const save = useCallback((next: string[]) => {
+    setSearches(next);
+    if (key) Promise.resolve(storageRef.current.set(key, next)).catch(() => {});
+  }, [key]);
+
+  const add = useCallback((search: string) => {
+    const trimmed = search.trim();
+    if (!trimmed) return;
+    save([trimmed, ...searches.filter((existing) => existing !== trimmed)].slice(0, limit));
+  }, [searches, limit, save]);
+
+  const remove = useCallback((search: string) => {
+    save(searches.filter((existing) => existing !== search));
+  }, [searches, save]);
+
+  const clear = useCallback(() => save([]), [save]);
+
+  return { searches, add, remove, clear };
+}
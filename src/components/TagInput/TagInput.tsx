@@ -0,0 +1,299 @@
+import React, { forwardRef, useCallback, useImperativeHandle, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { InputField, useInputFieldContext } from '../InputField';
+import { toErrorMessage } from '../InputField/validation';
+import { FieldSize, FieldVariant, iconButtonClasses } from '../InputField/styles';
+import { useFieldStyles } from '../Theme/ThemeContext';
+import { useMessages } from '../Locale/LocaleContext';
+import type { Messages } from '../Locale/messages';
+
+export interface TagInputProps
+  extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'size' | 'value' | 'defaultValue' | 'onChange'> {
+  /** Label text displayed above the input */
+  label?: string;
+  /** Helper text displayed below the input */
+  helperText?: string;
+  /** Error message displayed below the input */
+  errorMessage?: string;
+  /** Whether the input is in an invalid state */
+  invalid?: boolean;
+  /** Visual variant of the input */
+  variant?: FieldVariant;
+  /** Size of the input */
+  size?: FieldSize;
+  /** Whether to show a button that removes all tags */
+  clearable?: boolean;
+  /** Callback when the clear button is clicked */
+  onClear?: () => void;
+  /** Additional CSS classes */
+  className?: string;
+  /** Prefix for generated element IDs */
+  idPrefix?: string;
+  /** Overrides of the built-in strings for this field */
+  messages?: Partial<Messages>;
+  /** Current tags; makes the input controlled */
+  value?: string[];
+  /** Initial tags of an uncontrolled input */
+  defaultValue?: string[];
+  /** Callback with the new tags whenever one is added or removed */
+  onValueChange?: (tags: string[]) => void;
+  /** Maximum number of tags */
+  maxTags?: number;
+  /** Whether the same tag (ignoring case) may be added twice */
+  allowDuplicates?: boolean;
+  /** Per-tag check; invalid tags stay but are highlighted and their message is shown */
+  validateTag?: (tag: string) => boolean | string | undefined;
+  /** Keys that turn the typed text into a tag */
+  separators?: string[];
+}
+
+// Pasted text is split on any of these
+const PASTE_SEPARATORS = /[,;\n\t]+/;
+
+interface TagControlProps {
+  tags: string[];
+  tagErrors: (string | undefined)[];
+  placeholder?: string;
+  clearable: boolean;
+  messages: Messages;
+  onRemove: (index: number) => void;
+  onClear: () => void;
+  onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+  onPaste: (e: React.ClipboardEvent<HTMLInputElement>) => void;
+  onBlur: (e: React.FocusEvent<HTMLInputElement>) => void;
+}
+
+/** The chips and the text input inside one field box; the input is wired through the Root's prop getters */
+const TagControl = ({
+  tags,
+  tagErrors,
+  placeholder,
+  clearable,
+  messages,
+  onRemove,
+  onClear,
+  onKeyDown,
+  onPaste,
+  onBlur,
+}: TagControlProps) => {
+  const { size, variant, hasError, isDisabled, getInputProps } = useInputFieldContext();
+  const fieldStyles = useFieldStyles(size, variant);
+  const inputProps = getInputProps({
+    placeholder: tags.length === 0 ? placeholder : undefined,
+    // Required means at least one tag, so the empty text input must not block a native submit
+    required: false,
+    onKeyDown,
+    onPaste,
+    onBlur,
+    className: 'flex-1 min-w-[6rem] p-0 border-0 bg-transparent outline-none text-field-text placeholder-field-muted',
+  });
+
+  return (
+    <div
+      onClick={() => inputProps.ref.current?.focus()}
+      className={`
+        flex flex-wrap items-center gap-1.5
+        ${fieldStyles.field}
+        ${fieldStyles.variant}
+        border rounded-field transition-all duration-200 ease-in-out
+        focus-within:ring-field focus-within:ring-offset-field
+        ${hasError ? 'input-field-error focus-within:ring-field-danger' : 'focus-within:ring-field-focus'}
+        ${isDisabled ? 'cursor-not-allowed opacity-50' : 'cursor-text'}
+      `}
+    >
+      {tags.map((tag, index) => (
+        <span
+          key={`${tag}-${index}`}
+          className={`inline-flex items-center gap-1 rounded-md border-0 px-2 py-0.5 ${fieldStyles.message} ${
+            tagErrors[index]
+              ? 'bg-field-danger/10 text-field-danger-text'
+              : 'bg-field-text/10 text-field-text'
+          }`}
+        >
+          {tag}
+          {tagErrors[index] && <span className="sr-only">({messages.invalidTag})</span>}
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onRemove(index);
+            }}
+            disabled={isDisabled}
+            className="rounded hover:text-field-icon-hover disabled:opacity-50"
+            aria-label={messages.removeTag(tag)}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+
+      <input {...inputProps} />
+
+      {/* Clear Button */}
+      {clearable && tags.length > 0 && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onClear();
+          }}
+          disabled={isDisabled}
+          className={`ms-auto ${iconButtonClasses}`}
+          aria-label={messages.clearAllTags}
+        >
+          <X className={fieldStyles.icon} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Turns typed or pasted text into removable tags. Built on `InputField.Root`,
+ * so the label, helper and error are the same parts, with the same ARIA wiring,
+ * as on every other field.
+ */
+export const TagInput = forwardRef<HTMLInputElement, TagInputProps>(
+  (
+    {
+      label,
+      helperText,
+      errorMessage,
+      invalid = false,
+      clearable = false,
+      onClear,
+      placeholder,
+      idPrefix = 'tag-input',
+      messages: messageOverrides,
+      name,
+      value: valueProp,
+      defaultValue = [],
+      onValueChange,
+      maxTags,
+      allowDuplicates = false,
+      validateTag,
+      separators = ['Enter', ','],
+      onPaste,
+      ...props
+    },
+    ref
+  ) => {
+    const messages = useMessages(messageOverrides);
+    const inputRef = useRef<HTMLInputElement>(null);
+    useImperativeHandle(ref, () => inputRef.current as HTMLInputElement);
+
+    const isControlled = valueProp !== undefined;
+    const [localTags, setLocalTags] = useState(defaultValue);
+    const tags = isControlled ? valueProp : localTags;
+    const [text, setText] = useState('');
+
+    const isFull = maxTags !== undefined && tags.length >= maxTags;
+    const tagErrors = tags.map((tag) => (validateTag ? toErrorMessage(validateTag(tag), messages.invalid) : undefined));
+    const firstTagError = tagErrors.find(Boolean);
+
+    const commit = useCallback((next: string[]) => {
+      if (!isControlled) setLocalTags(next);
+      onValueChange?.(next);
+    }, [isControlled, onValueChange]);
+
+    const addTags = useCallback((candidates: string[]) => {
+      const next = [...tags];
+      for (const candidate of candidates.map((tag) => tag.trim()).filter(Boolean)) {
+        if (maxTags !== undefined && next.length >= maxTags) break;
+        const duplicate = next.some((tag) => tag.toLowerCase() === candidate.toLowerCase());
+        if (duplicate && !allowDuplicates) continue;
+        next.push(candidate);
+      }
+      if (next.length !== tags.length) commit(next);
+    }, [tags, maxTags, allowDuplicates, commit]);
+
+    const removeTag = useCallback((index: number) => {
+      commit(tags.filter((_, i) => i !== index));
+      inputRef.current?.focus();
+    }, [tags, commit]);
+
+    const handleClear = useCallback(() => {
+      commit([]);
+      setText('');
+      inputRef.current?.focus();
+      onClear?.();
+    }, [commit, onClear]);
+
+    // The consumer's onKeyDown and onBlur run first through the Root; preventing the default skips tag entry
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.defaultPrevented) return;
+
+      if (separators.includes(e.key) && text.trim()) {
+        e.preventDefault();
+        addTags([text]);
+        setText('');
+      } else if (e.key === 'Backspace' && !text && tags.length > 0) {
+        e.preventDefault();
+        removeTag(tags.length - 1);
+      }
+    };
+
+    const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+      onPaste?.(e);
+      if (e.defaultPrevented) return;
+
+      const pasted = e.clipboardData.getData('text');
+      if (PASTE_SEPARATORS.test(pasted)) {
+        e.preventDefault();
+        addTags((text + pasted).split(PASTE_SEPARATORS));
+        setText('');
+      }
+    };
+
+    const handleBlur = () => {
+      if (text.trim()) {
+        addTags([text]);
+        setText('');
+      }
+    };
+
+    return (
+      <InputField.Root
+        ref={inputRef}
+        {...props}
+        idPrefix={idPrefix}
+        messages={messageOverrides}
+        invalid={invalid}
+        errorMessage={errorMessage || firstTagError}
+        readOnly={isFull}
+        value={text}
+        onValueChange={(next) => setText(next)}
+      >
+        {/* Label */}
+        {label && <InputField.Label>{label}</InputField.Label>}
+
+        <TagControl
+          tags={tags}
+          tagErrors={tagErrors}
+          placeholder={placeholder}
+          clearable={clearable}
+          messages={messages}
+          onRemove={removeTag}
+          onClear={handleClear}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          onBlur={handleBlur}
+        />
+
+        {/* Native form value */}
+        {name && <input type="hidden" name={name} value={tags.join(',')} />}
+
+        {/* Helper Text: registers itself with the input and stays visible next to the error */}
+        {helperText && <InputField.Description>{helperText}</InputField.Description>}
+
+        {/* Tag Limit: explains why the input became read-only */}
+        {isFull && <InputField.Description role="status">{messages.maxTagsReached(maxTags)}</InputField.Description>}
+
+        {/* Error Message */}
+        <InputField.StatusMessage />
+      </InputField.Root>
+    );
+  }
+);
+
+TagInput.displayName = 'TagInput';
@@ -0,0 +1,266 @@
+import React, { forwardRef, useCallback, useId, useImperativeHandle, useRef, useState } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import type { ValueChangeReason } from '../InputField/InputField';
+import { CharacterCounter } from '../InputField/CharacterCounter';
+import { countGraphemes, truncateGraphemes } from '../InputField/graphemes';
+import { dispatchNativeInput } from '../InputField/nativeValue';
+import { useIsomorphicLayoutEffect } from '../InputField/useIsomorphicLayoutEffect';
+import {
+  errorClasses,
+  FieldSize,
+  FieldVariant,
+  helperClasses,
+  iconButtonClasses,
+  labelClasses,
+} from '../InputField/styles';
+import { useFieldStyles } from '../Theme/ThemeContext';
+import { useMessages } from '../Locale/LocaleContext';
+import type { Messages } from '../Locale/messages';
+
+export interface TextAreaProps
+  extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'defaultValue'> {
+  /** Label text displayed above the textarea */
+  label?: string;
+  /** Helper text displayed below the textarea */
+  helperText?: string;
+  /** Error message displayed below the textarea */
+  errorMessage?: string;
+  /** Whether the textarea is in an invalid state */
+  invalid?: boolean;
+  /** Whether the textarea is in a loading state */
+  loading?: boolean;
+  /** Visual variant of the textarea */
+  variant?: FieldVariant;
+  /** Size of the textarea */
+  size?: FieldSize;
+  /** Whether to show a clear button */
+  clearable?: boolean;
+  /** Callback when clear button is clicked */
+  onClear?: () => void;
+  /** Additional CSS classes */
+  className?: string;
+  /** Prefix for generated element IDs */
+  idPrefix?: string;
+  /** Overrides of the built-in strings for this field */
+  messages?: Partial<Messages>;
+  /** Current value; makes the textarea controlled */
+  value?: string;
+  /** Initial value of an uncontrolled textarea */
+  defaultValue?: string;
+  /** Callback with the new value and what caused the change */
+  onValueChange?: (value: string, reason: ValueChangeReason) => void;
+  /** Whether the height follows the content */
+  autoResize?: boolean;
+  /** Smallest height in rows */
+  minRows?: number;
+  /** Largest height in rows before the textarea scrolls */
+  maxRows?: number;
+  /** Whether to show a character counter; with `maxLength` the limit is enforced in graphemes */
+  showCount?: boolean;
+}
+
+/** Height of `rows` lines of text including the textarea's padding and border */
+const heightForRows = (style: CSSStyleDeclaration, rows: number) => {
+  const lineHeight = parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.5;
+  const chrome =
+    parseFloat(style.paddingTop) +
+    parseFloat(style.paddingBottom) +
+    parseFloat(style.borderTopWidth) +
+    parseFloat(style.borderBottomWidth);
+  return rows * lineHeight + chrome;
+};
+
+export const TextArea = forwardRef<HTMLTextAreaElement, TextAreaProps>(
+  (
+    {
+      label,
+      helperText,
+      errorMessage,
+      invalid = false,
+      loading = false,
+      variant = 'outlined',
+      size = 'md',
+      clearable = false,
+      onClear,
+      className = '',
+      disabled = false,
+      required = false,
+      placeholder,
+      id,
+      idPrefix = 'textarea',
+      messages: messageOverrides,
+      value: valueProp,
+      defaultValue,
+      onValueChange,
+      onChange,
+      autoResize = true,
+      minRows = 3,
+      maxRows,
+      showCount = false,
+      maxLength,
+      style,
+      'aria-describedby': ariaDescribedBy,
+      ...props
+    },
+    ref
+  ) => {
+    const fieldStyles = useFieldStyles(size, variant);
+    const messages = useMessages(messageOverrides);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const reactId = useId();
+    useImperativeHandle(ref, () => textareaRef.current as HTMLTextAreaElement);
+
+    const [localValue, setLocalValue] = useState(defaultValue ?? '');
+    const isControlled = valueProp !== undefined;
+    const value = isControlled ? valueProp : localValue;
+    const pendingReason = useRef<ValueChangeReason | null>(null);
+
+    // Grow with the content between minRows and maxRows
+    useIsomorphicLayoutEffect(() => {
+      const textarea = textareaRef.current;
+      if (!textarea || !autoResize) return;
+      const computed = window.getComputedStyle(textarea);
+      const minHeight = heightForRows(computed, minRows);
+      const maxHeight = maxRows !== undefined ? heightForRows(computed, maxRows) : Infinity;
+
+      // Collapse first so scrollHeight reflects the content, not the previous height
+      textarea.style.height = 'auto';
+      const borders = parseFloat(computed.borderTopWidth) + parseFloat(computed.borderBottomWidth);
+      const contentHeight = textarea.scrollHeight + borders;
+      textarea.style.height = `${Math.min(Math.max(contentHeight, minHeight), maxHeight)}px`;
+      textarea.style.overflowY = contentHeight > maxHeight ? 'auto' : 'hidden';
+    }, [value, autoResize, minRows, maxRows, size]);
+
+    const handleChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
+      const inputType = (e.nativeEvent as InputEvent).inputType;
+      const reason = pendingReason.current ?? (inputType === 'insertFromPaste' ? 'paste' : 'input');
+      pendingReason.current = null;
+
+      if (showCount && maxLength !== undefined) {
+        // The native maxLength counts UTF-16 units, so an emoji would use up two characters
+        const textarea = e.target;
+        const truncated = truncateGraphemes(textarea.value, maxLength);
+        if (truncated !== textarea.value) {
+          textarea.value = truncated;
+          textarea.setSelectionRange(truncated.length, truncated.length);
+        }
+      }
+      if (!isControlled) setLocalValue(e.target.value);
+      onChange?.(e);
+      onValueChange?.(e.target.value, reason);
+    }, [isControlled, onChange, onValueChange, showCount, maxLength]);
+
+    const handleClear = useCallback(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      pendingReason.current = 'clear';
+      dispatchNativeInput(textarea, '');
+      textarea.focus();
+      onClear?.();
+    }, [onClear]);
+
+    const showClear = clearable && !!value && !loading;
+    const hasError = invalid || !!errorMessage;
+
+    const textareaId = id || `${idPrefix}-${reactId.replace(/:/g, '')}`;
+    const helperId = `${textareaId}-helper`;
+    const errorId = `${textareaId}-error`;
+    const counterId = `${textareaId}-counter`;
+
+    return (
+      <div className={`input-field-base ${className}`}>
+        {/* Label */}
+        {label && (
+          <label htmlFor={textareaId} className={`${labelClasses} ${fieldStyles.text}`}>
+            {label}
+            {required && <span className="text-field-danger ms-1">*</span>}
+          </label>
+        )}
+
+        {/* Textarea Container */}
+        <div className="relative">
+          <textarea
+            ref={textareaRef}
+            id={textareaId}
+            value={value}
+            onChange={handleChange}
+            placeholder={placeholder}
+            rows={minRows}
+            disabled={disabled || loading}
+            required={required}
+            maxLength={showCount ? undefined : maxLength}
+            aria-describedby={
+              [hasError ? errorId : helperText ? helperId : undefined, showCount && counterId, ariaDescribedBy]
+                .filter(Boolean)
+                .join(' ') || undefined
+            }
+            aria-invalid={hasError}
+            aria-required={required}
+            aria-busy={loading || undefined}
+            style={style}
+            className={`
+              input-field-input
+              block resize-none
+              ${fieldStyles.field}
+              ${fieldStyles.variant}
+              border rounded-field
+              text-field-text
+              placeholder-field-muted
+              ${hasError ? 'input-field-error' : ''}
+              ${disabled ? 'cursor-not-allowed opacity-50' : ''}
+              ${loading ? 'cursor-wait' : ''}
+              ${showClear || loading ? 'pe-12' : ''}
+            `}
+            {...props}
+          />
+
+          {/* Controls: pinned to the first line so they don't move as the textarea grows */}
+          {(showClear || loading) && (
+            <div className="absolute end-3 top-2 flex items-center">
+              {/* Clear Button */}
+              {showClear && (
+                <button
+                  type="button"
+                  onClick={handleClear}
+                  disabled={disabled}
+                  className={iconButtonClasses}
+                  aria-label={messages.clearInput}
+                >
+                  <X className={fieldStyles.icon} />
+                </button>
+              )}
+
+              {/* Loading Spinner */}
+              {loading && (
+                <div className="p-1">
+                  <Loader2 className={`${fieldStyles.icon} animate-spin text-field-icon`} />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Character Counter */}
+        {showCount && (
+          <CharacterCounter id={counterId} count={countGraphemes(value)} max={maxLength} size={size} messages={messages} />
+        )}
+
+        {/* Helper Text */}
+        {helperText && !hasError && (
+          <p id={helperId} className={`${helperClasses} ${fieldStyles.message}`}>
+            {helperText}
+          </p>
+        )}
+
+        {/* Error Message */}
+        {hasError && (
+          <p id={errorId} className={`${errorClasses} ${fieldStyles.message}`} role="alert">
+            {errorMessage || messages.invalid}
+          </p>
+        )}
+      </div>
+    );
+  }
+);
+
+TextArea.displayName = 'TextArea';
@@ -0,0 +1,57 @@
+import { createContext, useContext } from 'react';
+import { sizeStyles, variantClasses } from '../InputField/styles';
+
+/**
+ * Registry of field variants. Brands add their own keys through module
+ * augmentation and register the matching classes with ThemeProvider:
+ *
+ * ```ts
+ * declare module './components/Theme/ThemeContext' {
+ *   interface FieldVariants { brand: true }
+ * }
+ * ```
+ */
+export interface FieldVariants {
+  filled: true;
+  outlined: true;
+  ghost: true;
+}
+
+/** Registry of field sizes, extended the same way as `FieldVariants` */
+export interface FieldSizes {
+  sm: true;
+  md: true;
+  lg: true;
+}
+
+export type FieldVariant = keyof FieldVariants;
+export type FieldSize = keyof FieldSizes;
+
+/** Classes a size applies to the parts of a field */
+export interface SizeStyles {
+  /** Padding and font size of the control */
+  field: string;
+  /** Icon dimensions */
+  icon: string;
+  /** Font size of labels, addons and list options */
+  text: string;
+  /** Font size of helper and error messages */
+  message: string;
+}
+
+export interface ThemeContextValue {
+  variants: Partial<Record<FieldVariant, string>>;
+  sizes: Partial<Record<FieldSize, SizeStyles>>;
+}
+
+export const ThemeContext = createContext<ThemeContextValue>({
+  variants: variantClasses,
+  sizes: sizeStyles,
+});
+
+/** Resolves the classes for a size and variant, falling back to the built-in `md`/`outlined` */
+export function useFieldStyles(size: FieldSize, variant: FieldVariant = 'outlined') {
+  const { sizes, variants } = useContext(ThemeContext);
+  const sizeStyle = sizes[size] ?? sizeStyles.md;
+  return { ...sizeStyle, variant: variants[variant] ?? variantClasses.outlined };
+}
@@ -0,0 +1,68 @@
+import React, { useContext, useId, useMemo } from 'react';
+import { defaultTokens, ThemeOverrides, tokenVariables } from './tokens';
+import { FieldSize, FieldVariant, SizeStyles, ThemeContext } from './ThemeContext';
+
+export interface ThemeProviderProps {
+  /** Token overrides; only the given tokens change */
+  tokens?: ThemeOverrides;
+  /** Classes for extra variants, or replacements for the built-in ones */
+  variants?: Partial<Record<FieldVariant, string>>;
+  /** Classes for extra sizes, or replacements for the built-in ones */
+  sizes?: Partial<Record<FieldSize, SizeStyles>>;
+  children: React.ReactNode;
+}
+
+const declarations = (variables: Record<string, string>) =>
+  Object.entries(variables)
+    .map(([name, value]) => `${name}:${value};`)
+    .join('');
+
+/**
+ * Overrides design tokens and registers variant and size classes for every
+ * field inside it. Providers nest: inner ones only change what they pass.
+ */
+export function ThemeProvider({ tokens, variants, sizes, children }: ThemeProviderProps) {
+  const parent = useContext(ThemeContext);
+  const scope = useId().replace(/:/g, '');
+
+  const value = useMemo(
+    () => ({
+      variants: { ...parent.variants, ...variants },
+      sizes: { ...parent.sizes, ...sizes },
+    }),
+    [parent, variants, sizes]
+  );
+
+  const css = useMemo(() => {
+    if (!tokens) return '';
+    // The focus ring follows a rebranded primary colour unless it is set itself
+    const primary = tokens.colors?.primary?.[500];
+    const { light, dark } = tokenVariables(
+      primary && !tokens.colors?.focus ? { ...tokens, colors: { ...tokens.colors, focus: primary } } : tokens
+    );
+    // A light override must not leak into dark mode, so restore the dark default unless one is given
+    const darkDefaults = tokenVariables({ darkColors: defaultTokens.darkColors }).dark;
+    Object.keys(light).forEach((name) => {
+      if (!(name in dark) && name in darkDefaults) dark[name] = darkDefaults[name];
+    });
+
+    const selector = `[data-theme-scope="${scope}"]`;
+    return (
+      `${selector}{${declarations(light)}}` +
+      (Object.keys(dark).length ? `.dark ${selector},${selector}.dark{${declarations(dark)}}` : '')
+    );
+  }, [tokens, scope]);
+
+  return (
+    <ThemeContext.Provider value={value}>
+      {css ? (
+        <div data-theme-scope={scope} className="contents">
+          <style>{css}</style>
+          {children}
+        </div>
+      ) : (
+        children
+      )}
+    </ThemeContext.Provider>
+  );
+}
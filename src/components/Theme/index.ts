@@ -0,0 +1,6 @@
+export { ThemeProvider } from './ThemeProvider';
+export type { ThemeProviderProps } from './ThemeProvider';
+export { useFieldStyles } from './ThemeContext';
+export type { FieldSize, FieldSizes, FieldVariant, FieldVariants, SizeStyles } from './ThemeContext';
+export { defaultTokens, tokenVariables } from './tokens';
+export type { ColorTokens, HexColor, ThemeOverrides, ThemeTokens } from './tokens';
@@ -0,0 +1,182 @@
+// Imported by tailwind.config.js as well as the components, so this module must stay free of React
+
+export type HexColor = `#${string}`;
+
+export type PaletteShade = 50 | 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900;
+
+export interface ColorTokens {
+  /** Brand palette behind the `primary-*` utilities */
+  primary: Record<PaletteShade, HexColor>;
+  /** Background the fields sit on; a floated label covers the border with it */
+  background: HexColor;
+  /** Background of filled fields and addons, and the hover background of ghost fields */
+  surface: HexColor;
+  /** Field and addon borders */
+  border: HexColor;
+  /** Typed text */
+  text: HexColor;
+  /** Placeholders, addon text and other secondary text */
+  muted: HexColor;
+  /** Labels */
+  label: HexColor;
+  /** Helper text */
+  helper: HexColor;
+  /** Icons and icon buttons */
+  icon: HexColor;
+  /** Icon buttons on hover */
+  iconHover: HexColor;
+  /** Focus ring */
+  focus: HexColor;
+  /** Invalid borders, focus rings and the required asterisk */
+  danger: HexColor;
+  /** Error messages */
+  dangerText: HexColor;
+  /** Borders and focus rings of fields with a warning */
+  warning: HexColor;
+  /** Warning messages and icons */
+  warningText: HexColor;
+  /** Borders and focus rings of fields marked successful */
+  success: HexColor;
+  /** Success messages and icons */
+  successText: HexColor;
+  /** Borders and focus rings of fields with an info status */
+  info: HexColor;
+  /** Info messages and icons */
+  infoText: HexColor;
+}
+
+export interface SpacingTokens {
+  /** Horizontal padding */
+  x: string;
+  /** Vertical padding */
+  y: string;
+}
+
+export interface ThemeTokens {
+  colors: ColorTokens;
+  /** Colours that change under the `.dark` class */
+  darkColors: Partial<ColorTokens>;
+  radii: {
+    /** Corner radius of fields and addons */
+    field: string;
+  };
+  /** Field padding per built-in size */
+  spacing: Record<'sm' | 'md' | 'lg', SpacingTokens>;
+  focusRing: {
+    width: string;
+    offset: string;
+  };
+}
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+/** Token overrides accepted by ThemeProvider */
+export type ThemeOverrides = DeepPartial<ThemeTokens>;
+
+export const defaultTokens: ThemeTokens = {
+  colors: {
+    primary: {
+      50: '#eff6ff',
+      100: '#dbeafe',
+      200: '#bfdbfe',
+      300: '#93c5fd',
+      400: '#60a5fa',
+      500: '#3b82f6',
+      600: '#2563eb',
+      700: '#1d4ed8',
+      800: '#1e40af',
+      900: '#1e3a8a',
+    },
+    background: '#ffffff',
+    surface: '#f9fafb',
+    border: '#d1d5db',
+    text: '#111827',
+    muted: '#6b7280',
+    label: '#374151',
+    helper: '#4b5563',
+    icon: '#9ca3af',
+    iconHover: '#4b5563',
+    focus: '#3b82f6',
+    danger: '#ef4444',
+    dangerText: '#dc2626',
+    warning: '#f59e0b',
+    warningText: '#b45309',
+    success: '#22c55e',
+    successText: '#15803d',
+    info: '#0ea5e9',
+    infoText: '#0369a1',
+  },
+  darkColors: {
+    background: '#1f2937',
+    surface: '#1f2937',
+    border: '#4b5563',
+    text: '#f3f4f6',
+    muted: '#9ca3af',
+    label: '#e5e7eb',
+    helper: '#9ca3af',
+    iconHover: '#d1d5db',
+    dangerText: '#f87171',
+    warningText: '#fbbf24',
+    successText: '#4ade80',
+    infoText: '#38bdf8',
+  },
+  radii: {
+    field: '0.5rem',
+  },
+  spacing: {
+    sm: { x: '0.75rem', y: '0.5rem' },
+    md: { x: '1rem', y: '0.625rem' },
+    lg: { x: '1rem', y: '0.75rem' },
+  },
+  focusRing: {
+    width: '2px',
+    offset: '2px',
+  },
+};
+
+const kebab = (name: string) => name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+
+/** CSS variable holding a colour token, e.g. `--ui-color-primary-500` or `--ui-color-icon-hover` */
+export const colorVariable = (name: string) => `--ui-color-${kebab(name)}`;
+
+/**
+ * Colours are stored as space-separated RGB channels so Tailwind's opacity
+ * modifiers (`bg-primary-500/20`) keep working.
+ */
+export const toRgbChannels = (hex: HexColor) => {
+  const digits = hex.slice(1);
+  const full = digits.length === 3 ? digits.replace(/./g, '$&$&') : digits;
+  const value = parseInt(full, 16);
+  return `${(value >> 16) & 255} ${(value >> 8) & 255} ${value & 255}`;
+};
+
+/** Tailwind colour value reading a colour token */
+export const colorValue = (name: string) => `rgb(var(${colorVariable(name)}) / <alpha-value>)`;
+
+const colorVariables = (colors: DeepPartial<ColorTokens> = {}) => {
+  const variables: Record<string, string> = {};
+  Object.entries(colors).forEach(([name, color]) => {
+    if (typeof color === 'string') {
+      variables[colorVariable(name)] = toRgbChannels(color as HexColor);
+    } else if (color) {
+      Object.entries(color).forEach(([shade, shadeColor]) => {
+        if (shadeColor) variables[colorVariable(`${name}-${shade}`)] = toRgbChannels(shadeColor as HexColor);
+      });
+    }
+  });
+  return variables;
+};
+
+/** Turns (partial) tokens into CSS custom properties for light mode and for `.dark` */
+export function tokenVariables(tokens: ThemeOverrides): { light: Record<string, string>; dark: Record<string, string> } {
+  const light = colorVariables(tokens.colors);
+  if (tokens.radii?.field) light['--ui-radius-field'] = tokens.radii.field;
+  Object.entries(tokens.spacing ?? {}).forEach(([size, spacing]) => {
+    if (spacing?.x) light[`--ui-space-${size}-x`] = spacing.x;
+    if (spacing?.y) light[`--ui-space-${size}-y`] = spacing.y;
+  });
+  if (tokens.focusRing?.width) light['--ui-ring-width'] = tokens.focusRing.width;
+  if (tokens.focusRing?.offset) light['--ui-ring-offset'] = tokens.focusRing.offset;
+
+  return { light, dark: colorVariables(tokens.darkColors) };
+}
@@ -0,0 +1,66 @@
+import { act } from 'react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Server markup is hydrated by the real client entry, which must not report any mismatch
+describe('hydration', () => {
+  beforeEach(() => {
+    ;(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true
+    window.matchMedia = vi.fn().mockImplementation((query: string) => ({
+      matches: false,
+      media: query,
+      addEventListener: () => {},
+      removeEventListener: () => {},
+    }))
+    vi.resetModules()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    document.body.innerHTML = ''
+  })
+
+  // Without `window` the components pick their server code paths, as on a real server
+  async function renderOnServer(identifierPrefix?: string) {
+    vi.stubGlobal('window', undefined)
+    try {
+      const { render } = await import('./entry-server')
+      return render({ identifierPrefix })
+    } finally {
+      vi.unstubAllGlobals()
+      vi.resetModules()
+    }
+  }
+
+  async function hydrate(identifierPrefix?: string) {
+    const html = await renderOnServer(identifierPrefix)
+    const root = document.createElement('div')
+    root.id = 'root'
+    if (identifierPrefix) root.dataset.identifierPrefix = identifierPrefix
+    root.innerHTML = html
+    document.body.append(root)
+    const serverIds = Array.from(root.querySelectorAll('[id]'), (element) => element.id)
+
+    // Hydration mismatches are reported through console.error
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await act(async () => {
+      await import('./main')
+    })
+    return { errors, root, serverIds }
+  }
+
+  it('hydrates the server markup without warnings', async () => {
+    const { errors, root, serverIds } = await hydrate()
+
+    expect(errors).not.toHaveBeenCalled()
+    expect(Array.from(root.querySelectorAll('[id]'), (element) => element.id)).toEqual(serverIds)
+  })
+
+  it('hydrates with the identifier prefix the server used', async () => {
+    const { errors, root, serverIds } = await hydrate('checkout-')
+
+    expect(errors).not.toHaveBeenCalled()
+    expect(serverIds.some((id) => id.includes('checkout-'))).toBe(true)
+    expect(Array.from(root.querySelectorAll('[id]'), (element) => element.id)).toEqual(serverIds)
+  })
+})
@@ -0,0 +1,20 @@
+import React from 'react'
+import { renderToString } from 'react-dom/server'
+import App from './App.tsx'
+import { ColorSchemeProvider } from './components/ColorScheme'
+
+export interface RenderOptions {
+  /** Passed to React as `identifierPrefix`; set the same value as `data-identifier-prefix` on the root to hydrate */
+  identifierPrefix?: string
+}
+
+export function render({ identifierPrefix }: RenderOptions = {}) {
+  return renderToString(
+    <React.StrictMode>
+      <ColorSchemeProvider>
+        <App />
+      </ColorSchemeProvider>
+    </React.StrictMode>,
+    { identifierPrefix },
+  )
+}
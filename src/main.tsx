@@ -1,10 +1,24 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import { ColorSchemeProvider } from './components/ColorScheme'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
+const container = document.getElementById('root')!
+const app = (
   <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-) 
\ No newline at end of file
+    <ColorSchemeProvider>
+      <App />
+    </ColorSchemeProvider>
+  </React.StrictMode>
+)
+
+// Must match the `identifierPrefix` the server rendered with, or the useId ids differ
+const identifierPrefix = container.dataset.identifierPrefix
+
+// Markup rendered by entry-server is hydrated; otherwise render from scratch
+if (container.hasChildNodes()) {
+  ReactDOM.hydrateRoot(container, app, { identifierPrefix })
+} else {
+  ReactDOM.createRoot(container, { identifierPrefix }).render(app)
+}
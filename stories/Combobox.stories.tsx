@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { Combobox, ComboboxOption } from '../src/components/Combobox';
+
+const FRUITS = ['Apple', 'Apricot', 'Banana', 'Blackberry', 'Blueberry', 'Cherry', 'Grape', 'Mango', 'Orange', 'Peach', 'Pear', 'Pineapple'];
+
+const CITIES: ComboboxOption[] = [
+  { value: 'ams', label: 'Amsterdam' },
+  { value: 'ber', label: 'Berlin' },
+  { value: 'lis', label: 'Lisbon' },
+  { value: 'lon', label: 'London' },
+  { value: 'mad', label: 'Madrid' },
+  { value: 'par', label: 'Paris' },
+  { value: 'rom', label: 'Rome' },
+  { value: 'vie', label: 'Vienna' },
+];
+
+const MANY_OPTIONS: ComboboxOption[] = Array.from({ length: 10000 }, (_, i) => ({
+  value: `item-${i}`,
+  label: `Item ${i + 1}`,
+}));
+
+// Local stand-in for a search endpoint
+const searchCities = (query: string, signal: AbortSignal) =>
+  new Promise<ComboboxOption[]>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const needle = query.toLowerCase();
+      resolve(CITIES.filter((city) => city.label.toLowerCase().includes(needle)));
+    }, 400 + Math.random() * 600);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+
+const meta: Meta<typeof Combobox> = {
+  title: 'Components/Combobox',
+  component: Combobox,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component: 'An InputField with a listbox popup following the WAI-ARIA combobox pattern. Supports static or async options, strict or free-text values and virtualized lists.',
+      },
+    },
+  },
+  decorators: [
+    (Story) => (
+      <div className="w-80 min-h-[22rem]">
+        <Story />
+      </div>
+    ),
+  ],
+  argTypes: {
+    variant: {
+      control: { type: 'select' },
+      options: ['filled', 'outlined', 'ghost'],
+    },
+    size: {
+      control: { type: 'select' },
+      options: ['sm', 'md', 'lg'],
+    },
+  },
+  tags: ['autodocs'],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Strict selection from a static list
+export const Default: Story = {
+  args: {
+    label: 'Fruit',
+    placeholder: 'Pick a fruit',
+    options: FRUITS,
+    helperText: 'Use the arrow keys, Enter and Escape',
+    clearable: true,
+  },
+};
+
+// Free text with suggestions
+export const FreeText: Story = {
+  args: {
+    label: 'Favourite fruit',
+    placeholder: 'Type anything',
+    options: FRUITS,
+    allowCustomValue: true,
+    variant: 'filled',
+  },
+};
+
+// Options fetched as you type
+export const AsyncOptions: Story = {
+  render: (args) => {
+    const [city, setCity] = useState<string | null>(null);
+
+    return (
+      <Combobox
+        {...args}
+        label="City"
+        placeholder="Search cities"
+        loadOptions={searchCities}
+        value={city}
+        onValueChange={(value) => setCity(value)}
+        helperText={`Selected: ${city ?? '—'}`}
+        clearable
+      />
+    );
+  },
+};
+
+// 10,000 options rendered through a virtual window
+export const Virtualized: Story = {
+  args: {
+    label: 'Item',
+    placeholder: 'Search 10,000 items',
+    options: MANY_OPTIONS,
+    size: 'sm',
+  },
+};
+
+// Error state
+export const WithError: Story = {
+  args: {
+    label: 'Fruit',
+    options: FRUITS,
+    invalid: true,
+    errorMessage: 'Please pick a fruit',
+  },
+};
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { DateField } from '../src/components/DateField';
+import type { DateRange, SingleDateFieldProps } from '../src/components/DateField';
+
+// Typed with the single-date props; the range story sets its own value type
+const meta: Meta<SingleDateFieldProps> = {
+  title: 'Components/DateField',
+  component: DateField as React.ComponentType<SingleDateFieldProps>,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component: 'A date input built on InputField. Dates are typed in the locale\'s numeric format or picked from a keyboard-navigable calendar, and reported as ISO strings. Supports min/max, disabled dates, ranges and an optional time.',
+      },
+    },
+  },
+  decorators: [
+    (Story) => (
+      <div className="w-80 min-h-[26rem]">
+        <Story />
+      </div>
+    ),
+  ],
+  argTypes: {
+    variant: {
+      control: { type: 'select' },
+      options: ['filled', 'outlined', 'ghost'],
+    },
+    size: {
+      control: { type: 'select' },
+      options: ['sm', 'md', 'lg'],
+    },
+    locale: {
+      control: { type: 'select' },
+      options: ['en-US', 'en-GB', 'de-DE', 'sv-SE', 'ja-JP'],
+    },
+  },
+  tags: ['autodocs'],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Single date
+export const Default: Story = {
+  args: {
+    label: 'Date of Birth',
+    helperText: 'Type the date or pick it from the calendar',
+    clearable: true,
+  },
+};
+
+// Bounds and disabled weekends
+export const WithLimits: Story = {
+  render: (args) => {
+    const [date, setDate] = useState<string | null>(null);
+
+    return (
+      <DateField
+        {...args}
+        label="Delivery Date"
+        min="2025-01-06"
+        max="2025-03-28"
+        isDateDisabled={(value) => [0, 6].includes(new Date(value).getUTCDay())}
+        value={date}
+        onValueChange={setDate}
+        helperText={`Weekdays in Q1 2025 · Value: ${date ?? 'null'}`}
+        clearable
+      />
+    );
+  },
+};
+
+// Start and end date
+export const Range: Story = {
+  render: (args) => {
+    const [stay, setStay] = useState<DateRange>({ start: null, end: null });
+
+    return (
+      <DateField
+        variant={args.variant}
+        size={args.size}
+        locale={args.locale}
+        range
+        label="Stay"
+        value={stay}
+        onValueChange={setStay}
+        helperText={`${stay.start ?? '…'} → ${stay.end ?? '…'}`}
+        clearable
+      />
+    );
+  },
+};
+
+// Date and time
+export const WithTime: Story = {
+  args: {
+    label: 'Appointment',
+    withTime: true,
+    defaultValue: '2025-05-14T09:30',
+    locale: 'de-DE',
+  },
+};
+
+// States carried over from InputField
+export const States: Story = {
+  render: () => (
+    <div className="space-y-4">
+      <DateField label="Invalid" invalid errorMessage="Pick a later date" defaultValue="2024-02-29" />
+      <DateField label="Loading" loading variant="filled" />
+      <DateField label="Disabled" disabled defaultValue="2024-02-29" size="sm" />
+    </div>
+  ),
+};
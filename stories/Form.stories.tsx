@@ -0,0 +1,132 @@
+import { Profiler, useCallback, useRef, useState } from 'react';
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { InputField } from '../src/components/InputField';
+import { Form, useForm } from '../src/components/Form';
+
+const meta: Meta<typeof Form> = {
+  title: 'Components/Form',
+  component: Form,
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: 'Collects the values of named InputFields, runs their rules (including cross-field rules) and blocks submit while any field is invalid. Each field subscribes to its own slice of the form state.',
+      },
+    },
+  },
+  tags: ['autodocs'],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Sign-up form with a cross-field rule
+export const SignUp: Story = {
+  render: () => {
+    const [result, setResult] = useState('');
+
+    return (
+      <Form
+        className="space-y-6 w-full max-w-md"
+        onSubmit={(values) => setResult(JSON.stringify(values, null, 2))}
+        onInvalid={(errors) => setResult(JSON.stringify({ errors }, null, 2))}
+      >
+        <InputField name="email" label="Email Address" type="email" required clearable />
+        <InputField
+          name="password"
+          label="Password"
+          type="password"
+          required
+          showPasswordToggle
+          rules={{ minLength: 8 }}
+        />
+        <InputField
+          name="confirmPassword"
+          label="Confirm Password"
+          type="password"
+          required
+          showPasswordToggle
+          rules={{
+            validate: (value, values) => value === values.password || 'Passwords do not match',
+          }}
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 rounded-lg bg-primary-500 text-white font-medium"
+        >
+          Sign Up
+        </button>
+        {result && <pre className="text-sm text-gray-600">{result}</pre>}
+      </Form>
+    );
+  },
+};
+
+// Type, then reload the story: the form offers the saved values back, except the password
+export const Drafts: Story = {
+  render: () => {
+    const [result, setResult] = useState('');
+
+    return (
+      <Form
+        className="space-y-6 w-full max-w-md"
+        draft={{ id: 'story-draft' }}
+        onSubmit={(values) => setResult(JSON.stringify(values, null, 2))}
+      >
+        <InputField name="fullName" label="Full Name" required />
+        <InputField name="email" label="Email Address" type="email" required />
+        <InputField name="coupon" label="Coupon Code" excludeFromDraft helperText="Not saved in the draft" />
+        <InputField name="password" label="Password" type="password" showPasswordToggle />
+        <button
+          type="submit"
+          className="px-4 py-2 rounded-lg bg-primary-500 text-white font-medium"
+        >
+          Submit
+        </button>
+        {result && <pre className="text-sm text-gray-600">{result}</pre>}
+      </Form>
+    );
+  },
+};
+
+const FIELD_COUNT = 500;
+const fieldNames = Array.from({ length: FIELD_COUNT }, (_, i) => `field${i}`);
+
+// Typing in any field should commit only that field, independent of the form size
+export const Benchmark500Fields: Story = {
+  render: () => {
+    const form = useForm();
+    const statsRef = useRef<HTMLDivElement>(null);
+    const commits = useRef(0);
+
+    // Written straight to the DOM: updating state here would re-render the whole form
+    const handleRender = useCallback((_id: string, phase: string, actualDuration: number) => {
+      if (phase === 'mount' || !statsRef.current) return;
+      commits.current += 1;
+      statsRef.current.textContent =
+        `${FIELD_COUNT} fields · updates: ${commits.current} · last update: ${actualDuration.toFixed(2)}ms`;
+    }, []);
+
+    return (
+      <div className="space-y-4">
+        <div ref={statsRef} className="sticky top-0 z-10 p-3 rounded-lg bg-gray-100 text-sm text-gray-700">
+          {FIELD_COUNT} fields · type in any field to measure an update
+        </div>
+        <Profiler id="form" onRender={handleRender}>
+          <Form form={form} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {fieldNames.map((name, i) => (
+              <InputField
+                key={name}
+                name={name}
+                label={`Field ${i + 1}`}
+                size="sm"
+                rules={{ maxLength: 10 }}
+                validateOn="change"
+              />
+            ))}
+          </Form>
+        </Profiler>
+      </div>
+    );
+  },
+};
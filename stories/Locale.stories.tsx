@@ -0,0 +1,60 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { Search } from 'lucide-react';
+import { InputField } from '../src/components/InputField';
+import { NumberField } from '../src/components/NumberField';
+import { TagInput } from '../src/components/TagInput';
+import { LocaleProvider } from '../src/components/Locale';
+
+const meta: Meta<typeof LocaleProvider> = {
+  title: 'Components/LocaleProvider',
+  component: LocaleProvider,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component: 'Translates the built-in labels and announcements of every field inside it. Layout follows the `dir` attribute: adornments, addons and the clear and password buttons mirror in right-to-left pages. Use the Locale and Direction toolbar menus to review any story.',
+      },
+    },
+  },
+  tags: ['autodocs'],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Arabic strings in a right-to-left layout
+export const Arabic: Story = {
+  args: { locale: 'ar', children: null },
+  render: (args) => (
+    <LocaleProvider locale={args.locale}>
+      <div dir="rtl" lang="ar" className="space-y-6 w-96">
+        <InputField label="البحث" startAdornment={<Search className="w-5 h-5" />} clearable defaultValue="مكونات" />
+        <InputField label="كلمة المرور" type="password" showPasswordToggle clearable defaultValue="secret" />
+        <InputField label="الموقع" prefix="https://" suffix=".com" />
+        <InputField label="نبذة" showCount maxLength={40} defaultValue="مرحبًا 👋" />
+        <NumberField label="الكمية" defaultValue={1250} />
+        <TagInput label="الوسوم" defaultValue={['react', 'tailwind']} clearable />
+        <InputField label="حقل غير صالح" invalid />
+      </div>
+    </LocaleProvider>
+  ),
+};
+
+// Per-instance overrides win over the catalog
+export const MessageOverrides: Story = {
+  args: { locale: 'en', children: null },
+  render: (args) => (
+    <LocaleProvider locale={args.locale} messages={{ clearInput: 'Reset search' }}>
+      <div className="space-y-6 w-96">
+        <InputField label="Search" clearable defaultValue="Provider override" />
+        <InputField
+          label="Password"
+          type="password"
+          showPasswordToggle
+          defaultValue="secret"
+          messages={{ showPassword: 'Reveal', hidePassword: 'Conceal' }}
+        />
+      </div>
+    </LocaleProvider>
+  ),
+};
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { NumberField } from '../src/components/NumberField';
+
+const meta: Meta<typeof NumberField> = {
+  title: 'Components/NumberField',
+  component: NumberField,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component: 'A locale-aware number input built on InputField. Formats with Intl.NumberFormat, parses localized input, clamps to min/max/step on blur and supports steppers, arrow keys and PageUp/PageDown.',
+      },
+    },
+  },
+  decorators: [
+    (Story) => (
+      <div className="w-80">
+        <Story />
+      </div>
+    ),
+  ],
+  argTypes: {
+    variant: {
+      control: { type: 'select' },
+      options: ['filled', 'outlined', 'ghost'],
+    },
+    size: {
+      control: { type: 'select' },
+      options: ['sm', 'md', 'lg'],
+    },
+    locale: {
+      control: { type: 'select' },
+      options: ['en-US', 'de-DE', 'fr-FR', 'ja-JP'],
+    },
+  },
+  tags: ['autodocs'],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Plain decimal with bounds
+export const Default: Story = {
+  args: {
+    label: 'Quantity',
+    defaultValue: 1,
+    min: 0,
+    max: 99,
+    helperText: 'Between 0 and 99',
+  },
+};
+
+// Currency in German formatting
+export const Currency: Story = {
+  render: (args) => {
+    const [amount, setAmount] = useState<number | null>(1234.56);
+
+    return (
+      <NumberField
+        {...args}
+        label="Betrag"
+        locale="de-DE"
+        formatOptions={{ style: 'currency', currency: 'EUR' }}
+        step={0.01}
+        largeStep={100}
+        min={0}
+        value={amount}
+        onValueChange={setAmount}
+        helperText={`Value: ${amount ?? 'null'}`}
+        clearable
+      />
+    );
+  },
+};
+
+// Percent with a 5% step
+export const Percent: Story = {
+  args: {
+    label: 'Discount',
+    formatOptions: { style: 'percent' },
+    defaultValue: 0.15,
+    min: 0,
+    max: 1,
+    step: 0.05,
+  },
+};
+
+// Without stepper buttons
+export const WithoutSteppers: Story = {
+  args: {
+    label: 'Year',
+    formatOptions: { useGrouping: false },
+    defaultValue: 2024,
+    min: 1900,
+    max: 2100,
+    showSteppers: false,
+    variant: 'filled',
+  },
+};
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { OtpInput } from '../src/components/OtpInput';
+
+const meta: Meta<typeof OtpInput> = {
+  title: 'Components/OtpInput',
+  component: OtpInput,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component: 'A segmented one-time-code input. Boxes share a single value, auto-advance, accept pasted codes and announce as one labelled group.',
+      },
+    },
+  },
+  argTypes: {
+    variant: {
+      control: { type: 'select' },
+      options: ['filled', 'outlined', 'ghost'],
+    },
+    size: {
+      control: { type: 'select' },
+      options: ['sm', 'md', 'lg'],
+    },
+    allowedCharacters: {
+      control: { type: 'select' },
+      options: ['numeric', 'alphanumeric'],
+    },
+  },
+  tags: ['autodocs'],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Six-digit 2FA code
+export const Default: Story = {
+  args: {
+    label: 'Verification Code',
+    helperText: 'Enter the 6-digit code from your authenticator app',
+    length: 6,
+  },
+};
+
+// Verifies the code once all boxes are filled
+export const VerifyOnComplete: Story = {
+  render: (args) => {
+    const [status, setStatus] = useState<'idle' | 'valid' | 'invalid'>('idle');
+
+    return (
+      <OtpInput
+        {...args}
+        label="Verification Code"
+        onValueChange={() => setStatus('idle')}
+        onComplete={(code) => setStatus(code === '123456' ? 'valid' : 'invalid')}
+        errorMessage={status === 'invalid' ? 'That code is incorrect' : undefined}
+        helperText={status === 'valid' ? 'Code accepted' : 'Try 123456'}
+      />
+    );
+  },
+};
+
+// Masked four-digit PIN
+export const Pin: Story = {
+  args: {
+    label: 'PIN',
+    length: 4,
+    masked: true,
+    size: 'lg',
+    variant: 'filled',
+  },
+};
+
+// Alphanumeric recovery code
+export const Alphanumeric: Story = {
+  args: {
+    label: 'Recovery Code',
+    length: 8,
+    allowedCharacters: 'alphanumeric',
+    size: 'sm',
+  },
+};
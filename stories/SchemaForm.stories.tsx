@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { InputField } from '../src/components/InputField';
+import { FormSchema, SchemaErrors, SchemaForm } from '../src/components/SchemaForm';
+
+const accountSchema: FormSchema = {
+  type: 'object',
+  required: ['fullName', 'email', 'role', 'seats'],
+  properties: {
+    fullName: { type: 'string', title: 'Full Name', description: 'As it appears on your ID', maxLength: 80 },
+    email: { type: 'string', format: 'email', title: 'Email Address' },
+    website: { type: 'string', format: 'uri', title: 'Website', description: 'Including https://' },
+    role: { type: 'string', title: 'Role', enum: ['Admin', 'Editor', 'Viewer'], default: 'Viewer' },
+    seats: { type: 'integer', title: 'Seats', minimum: 1, maximum: 500, default: 5 },
+    discount: { type: 'number', title: 'Discount (%)', minimum: 0, maximum: 100, multipleOf: 0.5 },
+    password: { type: 'string', format: 'password', title: 'Password', minLength: 12 },
+    notes: { type: 'string', title: 'Notes', description: 'Visible to admins only' },
+  },
+};
+
+const meta: Meta<typeof SchemaForm> = {
+  title: 'Components/SchemaForm',
+  component: SchemaForm,
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: 'Renders InputFields from a JSON-Schema-like object definition: types, formats, ranges, `enum` and `required` configure each field, `title` and `description` become its label and helper text, and validator errors are mapped back onto the fields.',
+      },
+    },
+  },
+  args: {
+    schema: accountSchema,
+  },
+  tags: ['autodocs'],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+const submitButton = (
+  <button type="submit" className="mt-6 px-4 py-2 rounded-lg bg-primary-500 text-white font-medium border-0">
+    Save
+  </button>
+);
+
+// Two columns with a custom order and a full-width field
+export const Default: Story = {
+  render: (args) => {
+    const [result, setResult] = useState('');
+
+    return (
+      <SchemaForm
+        {...args}
+        className="max-w-3xl"
+        columns={2}
+        order={['email', 'fullName']}
+        fullWidth={['notes']}
+        onSubmit={(data) => setResult(JSON.stringify(data, null, 2))}
+        onInvalid={(errors) => setResult(JSON.stringify({ errors }, null, 2))}
+      >
+        {submitButton}
+        {result && <pre className="mt-4 text-sm text-gray-600 dark:text-gray-300">{result}</pre>}
+      </SchemaForm>
+    );
+  },
+};
+
+// Errors from a validator such as Ajv, or from the server
+export const ServerErrors: Story = {
+  render: (args) => {
+    const [errors, setErrors] = useState<SchemaErrors>();
+
+    return (
+      <SchemaForm
+        {...args}
+        className="max-w-md"
+        defaultValues={{ fullName: 'Jane Doe', email: 'jane@example.com', seats: 3 }}
+        errors={errors}
+        onSubmit={() =>
+          setErrors([
+            { instancePath: '/email', message: 'This email is already registered' },
+            { instancePath: '/seats', message: 'Your plan allows at most 2 seats' },
+          ])
+        }
+      >
+        {submitButton}
+      </SchemaForm>
+    );
+  },
+  parameters: {
+    docs: {
+      description: {
+        story: 'Submitting maps each error back onto its field. An error hides once its field is edited.',
+      },
+    },
+  },
+};
+
+// Custom widget for one property
+export const CustomWidget: Story = {
+  args: {
+    schema: {
+      type: 'object',
+      required: ['phone'],
+      properties: {
+        name: { type: 'string', title: 'Name' },
+        phone: { type: 'string', title: 'Phone', description: 'US numbers only', pattern: '^\\(\\d{3}\\) \\d{3}-\\d{4}$' },
+      },
+    },
+  },
+  render: (args) => (
+    <SchemaForm
+      {...args}
+      className="max-w-md"
+      widgets={{
+        phone: ({ schema: _schema, ...props }) => <InputField {...props} type="tel" mask="(999) 999-9999" clearable />,
+      }}
+    >
+      {submitButton}
+    </SchemaForm>
+  ),
+};
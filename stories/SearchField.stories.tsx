@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { SearchField } from '../src/components/SearchField';
+import type { RecentSearchStorage } from '../src/components/SearchField';
+
+const FRUITS = ['Apple', 'Apricot', 'Banana', 'Blackberry', 'Blueberry', 'Cherry', 'Grape', 'Lemon', 'Mango', 'Orange'];
+
+// In-memory storage, e.g. to keep recent searches out of localStorage
+const memory = new Map<string, string[]>();
+const memoryStorage: RecentSearchStorage = {
+  get: (key) => memory.get(key) ?? [],
+  set: (key, searches) => {
+    memory.set(key, searches);
+  },
+};
+
+const meta: Meta<typeof SearchField> = {
+  title: 'Components/SearchField',
+  component: SearchField,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component: 'A search preset of InputField with a debounced onQueryChange, onSearch on Enter, Escape to clear, recent searches in pluggable storage and a global focus shortcut.',
+      },
+    },
+  },
+  decorators: [
+    (Story) => (
+      <div className="w-80 min-h-[18rem]">
+        <Story />
+      </div>
+    ),
+  ],
+  argTypes: {
+    variant: {
+      control: { type: 'select' },
+      options: ['filled', 'outlined', 'ghost'],
+    },
+    size: {
+      control: { type: 'select' },
+      options: ['sm', 'md', 'lg'],
+    },
+    debounce: {
+      control: { type: 'number' },
+    },
+  },
+  tags: ['autodocs'],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Debounced filtering
+export const Default: Story = {
+  render: (args) => {
+    const [query, setQuery] = useState('');
+    const [submitted, setSubmitted] = useState<string | null>(null);
+    const results = FRUITS.filter((fruit) => fruit.toLowerCase().includes(query.toLowerCase()));
+
+    return (
+      <div className="space-y-3">
+        <SearchField
+          {...args}
+          label="Fruit"
+          placeholder="Search fruit…"
+          shortcut="/"
+          onQueryChange={setQuery}
+          onSearch={setSubmitted}
+          helperText="Press / to focus, Enter to search, Escape to clear"
+        />
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {results.length} results for “{query}”{submitted !== null && ` · Searched: ${submitted}`}
+        </p>
+      </div>
+    );
+  },
+  args: {
+    debounce: 300,
+  },
+};
+
+// Remembered searches in custom storage
+export const RecentSearches: Story = {
+  args: {
+    label: 'Search',
+    placeholder: 'Search and press Enter…',
+    recentSearchesKey: 'storybook-recent',
+    recentSearchesStorage: memoryStorage,
+    recentSearchesLimit: 5,
+    helperText: 'Searches you submit show up here next time',
+  },
+};
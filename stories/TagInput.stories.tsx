@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { TagInput } from '../src/components/TagInput';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const meta: Meta<typeof TagInput> = {
+  title: 'Components/TagInput',
+  component: TagInput,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component: 'Turns typed or pasted text into removable chips. Shares the InputField label, helper, error, variant and size styling.',
+      },
+    },
+  },
+  decorators: [
+    (Story) => (
+      <div className="w-96">
+        <Story />
+      </div>
+    ),
+  ],
+  argTypes: {
+    variant: {
+      control: { type: 'select' },
+      options: ['filled', 'outlined', 'ghost'],
+    },
+    size: {
+      control: { type: 'select' },
+      options: ['sm', 'md', 'lg'],
+    },
+  },
+  tags: ['autodocs'],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Filter tags
+export const Default: Story = {
+  args: {
+    label: 'Filters',
+    placeholder: 'Type and press Enter',
+    defaultValue: ['react', 'typescript'],
+    helperText: 'Enter or comma adds a tag, Backspace removes the last one',
+    clearable: true,
+  },
+};
+
+// Recipients with per-tag validation
+export const Recipients: Story = {
+  render: (args) => {
+    const [recipients, setRecipients] = useState(['jane@example.com', 'not-an-email']);
+
+    return (
+      <TagInput
+        {...args}
+        label="Recipients"
+        placeholder="Paste a list of emails"
+        value={recipients}
+        onValueChange={setRecipients}
+        validateTag={(tag) => EMAIL_PATTERN.test(tag) || `"${tag}" is not a valid email address`}
+        maxTags={5}
+        helperText="Up to 5 recipients"
+        clearable
+      />
+    );
+  },
+};
+
+// All sizes
+export const Sizes: Story = {
+  render: () => (
+    <div className="space-y-6">
+      <TagInput label="Small" size="sm" defaultValue={['one', 'two']} clearable />
+      <TagInput label="Medium" size="md" defaultValue={['one', 'two']} clearable />
+      <TagInput label="Large" size="lg" defaultValue={['one', 'two']} clearable variant="filled" />
+    </div>
+  ),
+};
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { TextArea } from '../src/components/TextArea';
+
+const meta: Meta<typeof TextArea> = {
+  title: 'Components/TextArea',
+  component: TextArea,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component: 'Multiline counterpart of InputField that grows with its content between minRows and maxRows. The optional counter counts graphemes, so emoji and accented letters count as one character.',
+      },
+    },
+  },
+  decorators: [
+    (Story) => (
+      <div className="w-96">
+        <Story />
+      </div>
+    ),
+  ],
+  argTypes: {
+    variant: {
+      control: { type: 'select' },
+      options: ['filled', 'outlined', 'ghost'],
+    },
+    size: {
+      control: { type: 'select' },
+      options: ['sm', 'md', 'lg'],
+    },
+  },
+  tags: ['autodocs'],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Default textarea
+export const Default: Story = {
+  args: {
+    label: 'Message',
+    placeholder: 'Write a message...',
+    helperText: 'Grows as you type',
+  },
+};
+
+// Counter with a grapheme limit
+export const WithCharacterCount: Story = {
+  args: {
+    label: 'Bio',
+    placeholder: 'Tell us about yourself',
+    showCount: true,
+    maxLength: 160,
+    minRows: 2,
+    maxRows: 6,
+    clearable: true,
+    defaultValue: 'Designer & developer 🎨👩🏽‍💻 based in Lisbon 🇵🇹',
+  },
+};
+
+// Controlled with a row cap
+export const Controlled: Story = {
+  render: () => {
+    const [value, setValue] = useState('');
+
+    return (
+      <div className="space-y-2">
+        <TextArea
+          label="Release Notes"
+          value={value}
+          onValueChange={setValue}
+          minRows={3}
+          maxRows={8}
+          clearable
+          helperText="Scrolls after eight rows"
+        />
+        <p className="text-sm text-gray-600">{value.split('\n').length} lines</p>
+      </div>
+    );
+  },
+};
+
+// Error state
+export const WithError: Story = {
+  args: {
+    label: 'Feedback',
+    defaultValue: 'Too short',
+    invalid: true,
+    errorMessage: 'Please write at least 20 characters',
+  },
+};
+
+// Loading state
+export const Loading: Story = {
+  args: {
+    label: 'Summary',
+    loading: true,
+    defaultValue: 'Generating summary...',
+  },
+};
+
+// Fixed height
+export const WithoutAutoResize: Story = {
+  args: {
+    label: 'Notes',
+    autoResize: false,
+    minRows: 4,
+    placeholder: 'Fixed at four rows',
+  },
+};
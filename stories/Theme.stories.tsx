@@ -0,0 +1,75 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { InputField } from '../src/components/InputField';
+import { TextArea } from '../src/components/TextArea';
+import { ThemeProvider } from '../src/components/Theme';
+
+// Registers the extra keys so `variant="brand"` and `size="xl"` type-check
+declare module '../src/components/Theme/ThemeContext' {
+  interface FieldVariants {
+    brand: true;
+  }
+  interface FieldSizes {
+    xl: true;
+  }
+}
+
+const meta: Meta<typeof ThemeProvider> = {
+  title: 'Components/ThemeProvider',
+  component: ThemeProvider,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component: 'Overrides the design tokens (colours, radii, spacing and focus ring) for every field inside it through CSS custom properties, and registers extra variant and size classes.',
+      },
+    },
+  },
+  tags: ['autodocs'],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Brand colours and rounder corners
+export const BrandTokens: Story = {
+  args: { children: null },
+  render: () => (
+    <ThemeProvider
+      tokens={{
+        colors: {
+          primary: { 500: '#7c3aed', 600: '#6d28d9' },
+          border: '#c4b5fd',
+          label: '#5b21b6',
+        },
+        darkColors: { border: '#6d28d9', label: '#ddd6fe' },
+        radii: { field: '9999px' },
+        focusRing: { width: '3px', offset: '1px' },
+      }}
+    >
+      <div className="space-y-6 w-96">
+        <InputField label="Email Address" placeholder="you@example.com" helperText="Focus to see the brand ring" clearable />
+        <InputField label="Website" prefix="https://" placeholder="example.com" />
+        <button type="button" className="px-4 py-2 rounded-lg bg-primary-500 text-white font-medium">
+          primary-500 follows the tokens
+        </button>
+      </div>
+    </ThemeProvider>
+  ),
+};
+
+// Extra variant and size registered by the brand
+export const CustomVariantAndSize: Story = {
+  args: { children: null },
+  render: () => (
+    <ThemeProvider
+      variants={{ brand: 'bg-primary-50 border-primary-300 dark:bg-primary-900/30 dark:border-primary-700' }}
+      sizes={{ xl: { field: 'px-5 py-4 text-xl', icon: 'w-7 h-7', text: 'text-xl', message: 'text-base' } }}
+    >
+      <div className="space-y-6 w-96">
+        <InputField label="Brand Variant" variant="brand" placeholder="variant=&quot;brand&quot;" clearable />
+        <InputField label="Extra Large" size="xl" placeholder="size=&quot;xl&quot;" clearable defaultValue="Large text" />
+        <TextArea label="Brand TextArea" variant="brand" size="xl" placeholder="Registered keys work on every field" />
+      </div>
+    </ThemeProvider>
+  ),
+};
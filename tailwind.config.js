@@ -1,3 +1,22 @@
+import plugin from 'tailwindcss/plugin';
+import { colorValue, defaultTokens, tokenVariables } from './src/components/Theme/tokens.ts';
+
+const { light, dark } = tokenVariables(defaultTokens);
+
+// Every colour token becomes a `field-*` colour, e.g. `text-field-muted` or `border-field-danger`
+const fieldColors = Object.fromEntries(
+  Object.keys(defaultTokens.colors)
+    .filter((name) => name !== 'primary')
+    .map((name) => [name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`), colorValue(name)])
+);
+
+const fieldSpacing = Object.fromEntries(
+  Object.keys(defaultTokens.spacing).flatMap((size) => [
+    [`field-${size}-x`, `var(--ui-space-${size}-x)`],
+    [`field-${size}-y`, `var(--ui-space-${size}-y)`],
+  ])
+);
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: [
@@ -9,18 +28,11 @@ export default {
   theme: {
     extend: {
       colors: {
-        primary: {
-          50: '#eff6ff',
-          100: '#dbeafe',
-          200: '#bfdbfe',
-          300: '#93c5fd',
-          400: '#60a5fa',
-          500: '#3b82f6',
-          600: '#2563eb',
-          700: '#1d4ed8',
-          800: '#1e40af',
-          900: '#1e3a8a',
-        },
+        // Read from the design tokens so ThemeProvider can rebrand every primary-* utility
+        primary: Object.fromEntries(
+          Object.keys(defaultTokens.colors.primary).map((shade) => [shade, colorValue(`primary-${shade}`)])
+        ),
+        field: fieldColors,
         gray: {
           50: '#f9fafb',
           100: '#f3f4f6',
@@ -43,11 +55,26 @@ export default {
       spacing: {
         '18': '4.5rem',
         '88': '22rem',
+        ...fieldSpacing,
+      },
+      borderRadius: {
+        field: 'var(--ui-radius-field)',
+      },
+      ringWidth: {
+        field: 'var(--ui-ring-width)',
+      },
+      ringOffsetWidth: {
+        field: 'var(--ui-ring-offset)',
       },
       animation: {
         'spin-slow': 'spin 2s linear infinite',
       },
     },
   },
-  plugins: [],
+  plugins: [
+    // Default token values; ThemeProvider overrides them per subtree
+    plugin(({ addBase }) => {
+      addBase({ ':root': light, '.dark': dark });
+    }),
+  ],
 } 
\ No newline at end of file